@@ -2,86 +2,625 @@
  * Allowlist Management
  * Loads and checks phone numbers against inbound/outbound allowlists
  *
+ * Entries can be written as:
+ *   - exact numbers:   "6596542555"
+ *   - wildcards:       "65*" (any remaining digits), "6596?4255?" (any single digit)
+ *   - digit ranges:    "659654250-659654259" (inclusive, both bounds the same length)
+ *
+ * Inbound/outbound entries may also be objects with a schedule, limiting
+ * them to certain weekdays/hours in a time zone and/or until an expiry date:
+ *   { "pattern": "6591234567", "schedule": { "days": ["mon", "fri"], "hours": "09:00-18:00",
+ *     "timezone": "Asia/Singapore", "expires": "2026-12-31" } }
+ *
+ * The optional `deny` section uses the same patterns, each with an optional
+ * reason, and is evaluated before the allowlist (deny always wins).
+ *
+ * The optional `rejection` section decides what a blocked inbound caller
+ * experiences, per block outcome with a `default` fallback:
+ *   { "denied": { "action": "hangup", "cause": "rejected" },
+ *     "default": { "action": "speak", "text": "This line is not available.", "cause": "busy" } }
+ *
+ * The file is validated against AllowlistFileSchema (mirrors allowlist.schema.json).
+ * An invalid file is rejected as a whole and the last good allowlist stays
+ * active; if there is none, all calls are blocked until the file is fixed.
+ *
  * @module allowlist
  */
 
-import { readFileSync, existsSync, watchFile } from "node:fs";
+import { EventEmitter } from "node:events";
+import { readFileSync, writeFileSync, renameSync, unlinkSync, existsSync, watchFile } from "node:fs";
 import { resolve, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
+import { z } from "zod";
+import { normalizeNumber, normalizePatternPrefix, extractNumberFromEndpoint } from "./phone-number.js";
+import { HANGUP_CAUSES, type HangupCause } from "./hangup-cause.js";
+
+export { normalizeNumber, extractNumberFromEndpoint };
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
+const DEFAULT_ALLOWLIST_PATH = resolve(__dirname, "../allowlist.json");
+
+export type AllowlistDirection = "inbound" | "outbound";
+
+export const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export interface AllowlistSchedule {
+  /** Weekdays on which the entry is active (default: every day) */
+  days?: Weekday[];
+  /** Active time window "HH:MM-HH:MM"; may wrap past midnight (default: all day) */
+  hours?: string;
+  /** IANA time zone for days/hours (default: server time zone) */
+  timezone?: string;
+  /**
+   * ISO date or date-time after which the entry no longer matches. A date
+   * means the end of that day and a date-time without offset a local time,
+   * both in `timezone`.
+   */
+  expires?: string;
+}
+
+export interface AllowlistEntry {
+  pattern: string;
+  schedule?: AllowlistSchedule;
+}
+
+export interface DenyEntry {
+  pattern: string;
+  /** Human-readable reason, reported when a call is blocked by this entry */
+  reason?: string;
+}
+
+/** What happens to a blocked inbound call. */
+export type RejectionPolicy =
+  /** Hang up immediately with the given cause (default: normal) */
+  | { action: "hangup"; cause?: HangupCause }
+  /** Answer, play one or more media URIs (e.g. "sound:ss-noservice"), then hang up */
+  | { action: "play"; media: string | string[]; cause?: HangupCause }
+  /** Answer, speak a TTS message, then hang up */
+  | { action: "speak"; text: string; voice?: string; language?: string; cause?: HangupCause }
+  /** Leave Stasis and continue in a dialplan context (e.g. "blocked") */
+  | { action: "continue"; context: string; extension?: string; priority?: number };
+
+/** Block outcomes a rejection policy can be configured for. */
+export const REJECTION_OUTCOMES = ["denied", "outside-schedule", "no-match", "no-number"] as const;
+export type RejectionOutcome = (typeof REJECTION_OUTCOMES)[number];
+
+export type RejectionPolicies = Partial<Record<RejectionOutcome | "default", RejectionPolicy>>;
 
 export interface Allowlist {
-  inbound: string[];
-  outbound: string[];
+  inbound: AllowlistEntry[];
+  outbound: AllowlistEntry[];
+  deny: {
+    inbound: DenyEntry[];
+    outbound: DenyEntry[];
+  };
+  /** Inbound rejection treatment per block outcome (empty = plain hangup) */
+  rejection: RejectionPolicies;
+}
+
+/** Allowlist as stored in allowlist.json: entries without a schedule/reason are plain strings. */
+export interface AllowlistFile {
+  inbound: Array<string | AllowlistEntry>;
+  outbound: Array<string | AllowlistEntry>;
+  deny: {
+    inbound: Array<string | DenyEntry>;
+    outbound: Array<string | DenyEntry>;
+  };
+  rejection?: RejectionPolicies;
+}
+
+export type AllowlistRuleKind = "exact" | "wildcard" | "range";
+
+export interface AllowlistRule {
+  /** Normalized entry as it appears in the allowlist */
+  pattern: string;
+  kind: AllowlistRuleKind;
+  /** Block reason (deny rules only) */
+  reason?: string;
+  /** Time window the entry is limited to (allow rules only) */
+  schedule?: AllowlistSchedule;
+}
+
+/** Result of checking a number against one direction of the allowlist. */
+export interface AllowlistDecision {
+  allowed: boolean;
+  /** Number extracted from the caller ID / endpoint ("" if none could be found) */
+  number: string;
+  /** Rule that matched (an allow entry, or the deny entry that blocked the number) */
+  rule?: AllowlistRule;
+  /**
+   * open = list empty (allow all), matched = an allow entry matched,
+   * denied = a deny entry matched, outside-schedule = only scheduled entries
+   * matched and none is active now, no-match / no-number = not on the allowlist,
+   * closed = no valid allowlist is loaded and everything is blocked
+   */
+  outcome: "open" | "matched" | "denied" | "outside-schedule" | "no-match" | "no-number" | "closed";
+  /** Why the number was blocked (only set when allowed is false) */
+  reason?: string;
+}
+
+interface CompiledRule extends AllowlistRule {
+  matches(number: string): boolean;
+  /** Returns undefined if the rule is active at `now`, else why it is not */
+  inactiveReason(now: Date): string | undefined;
 }
 
+interface CompiledRules {
+  inbound: CompiledRule[];
+  outbound: CompiledRule[];
+  denyInbound: CompiledRule[];
+  denyOutbound: CompiledRule[];
+}
+
+/** Why the last load of allowlist.json was rejected. */
+export interface AllowlistLoadError {
+  path: string;
+  message: string;
+  /** Schema violations as "path: message" */
+  issues?: string[];
+  at: Date;
+}
+
+export interface AllowlistStatus {
+  path: string;
+  /** When the active allowlist was loaded from disk or saved */
+  loadedAt?: Date;
+  /** Set while the file on disk is invalid (the previous allowlist stays active) */
+  error?: AllowlistLoadError;
+  /** True while all calls are blocked because no valid allowlist is available */
+  closed: boolean;
+}
+
+/**
+ * Emits "loaded" (Allowlist) after a successful load from disk and
+ * "invalid" (AllowlistLoadError) when the file is rejected.
+ */
+export const allowlistEvents = new EventEmitter();
+
 let cachedAllowlist: Allowlist | null = null;
+let compiledRules: CompiledRules = { inbound: [], outbound: [], denyInbound: [], denyOutbound: [] };
 let allowlistPath: string | null = null;
+let failClosed = false;
+let closed = false;
+let loadedAt: Date | undefined;
+let loadError: AllowlistLoadError | undefined;
+
+const RANGE_PATTERN = /^\+?(\d+)-\+?(\d+)$/;
+const HOURS_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)-(?:([01]\d|2[0-3]):([0-5]\d)|(24):(00))$/;
+
+/** "2026-12-31", "2026-12-31T18:00", "2026-12-31T18:00:00Z", "2026-12-31T18:00:00+08:00", ... */
+const EXPIRES_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
 
 /**
- * Normalize a phone number by removing all non-digit characters
+ * Normalize an allowlist entry. Exact numbers go through the same E.164
+ * normalization as caller IDs; wildcards and ranges only lose formatting
+ * characters and a leading '+' / international prefix.
+ * Returns "" if nothing usable remains.
  */
-export function normalizeNumber(input: string | undefined | null): string {
+export function normalizePattern(input: string | undefined | null): string {
   if (!input) return "";
-  return input.replace(/\D/g, "");
+  const compact = input.replace(/[\s().]/g, "");
+
+  const range = compact.match(RANGE_PATTERN);
+  if (range) {
+    const low = normalizePatternPrefix(range[1]);
+    const high = normalizePatternPrefix(range[2]);
+    if (low.length === high.length) {
+      const [from, to] = low <= high ? [low, high] : [high, low];
+      return `${from}-${to}`;
+    }
+  }
+
+  const cleaned = compact.replace(/[^\d*?+]/g, "");
+  if (/[*?]/.test(cleaned)) {
+    return normalizePatternPrefix(cleaned).replace(/\+/g, "");
+  }
+  return normalizeNumber(cleaned);
 }
 
 /**
- * Extract the phone number from an endpoint string
- * e.g., "PJSIP/trunk-provider/6596542555" → "6596542555"
- * e.g., "SIP/6596542555@provider" → "6596542555"
- * e.g., "PJSIP/6596542555" → "6596542555"
+ * Validate a schedule. Returns an error message, or undefined if valid.
  */
-export function extractNumberFromEndpoint(endpoint: string): string {
-  // Try to find a sequence of digits that looks like a phone number (7+ digits)
-  const matches = endpoint.match(/\d{7,}/g);
-  if (matches && matches.length > 0) {
-    // Return the longest match (most likely the full phone number)
-    return matches.reduce((a, b) => (a.length >= b.length ? a : b));
+export function validateSchedule(schedule: AllowlistSchedule): string | undefined {
+  if (schedule.days && schedule.days.some((d) => !WEEKDAYS.includes(d))) {
+    return `days must be a list of ${WEEKDAYS.join(", ")}`;
+  }
+  if (schedule.hours !== undefined && !HOURS_PATTERN.test(schedule.hours)) {
+    return `hours must look like "09:00-18:00"`;
   }
-  return "";
+  if (schedule.timezone !== undefined) {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: schedule.timezone });
+    } catch {
+      return `unknown time zone '${schedule.timezone}'`;
+    }
+  }
+  if (schedule.expires !== undefined && Number.isNaN(expiryTime(schedule.expires, schedule.timezone))) {
+    return `expires must be an ISO date or date-time, e.g. "2026-12-31" or "2026-12-31T18:00:00+08:00"`;
+  }
+  return undefined;
 }
 
 /**
- * Load the allowlist from allowlist.json
+ * Local weekday and minutes-since-midnight of `now` in a time zone.
  */
-export function loadAllowlist(customPath?: string): Allowlist {
-  const filePath = customPath || resolve(__dirname, "../allowlist.json");
-  allowlistPath = filePath;
+function localTime(now: Date, timezone?: string): { day: Weekday; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  return {
+    day: get("weekday").toLowerCase().slice(0, 3) as Weekday,
+    minutes: Number(get("hour")) * 60 + Number(get("minute")),
+  };
+}
 
-  if (!existsSync(filePath)) {
-    console.warn(`[Allowlist] File not found: ${filePath} — using empty allowlist`);
-    cachedAllowlist = { inbound: [], outbound: [] };
-    return cachedAllowlist;
+/** Milliseconds `timezone` (default: server time zone) is ahead of UTC at `utc`. */
+function zoneOffset(utc: number, timezone?: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(utc);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const local = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return local - Math.floor(utc / 1000) * 1000;
+}
+
+/**
+ * The instant an entry expires (NaN when `expires` is not a valid ISO date or
+ * date-time). Dates expire at the end of the day; dates and date-times without
+ * an offset are read in `timezone`.
+ */
+function expiryTime(expires: string, timezone?: string): number {
+  const match = EXPIRES_PATTERN.exec(expires);
+  if (!match) return NaN;
+  const [, y, mo, d, h = "0", mi = "0", sec = "0", offset] = match;
+  // Reject values like 2026-02-30 or 25:00, which Date.UTC would roll over
+  const day = new Date(Date.UTC(Number(y), Number(mo) - 1, Number(d)));
+  if (day.getUTCMonth() !== Number(mo) - 1 || day.getUTCDate() !== Number(d)) return NaN;
+  if (Number(h) > 23 || Number(mi) > 59 || Number(sec) > 59) return NaN;
+  if (offset) return Date.parse(expires);
+
+  const local = match[4] === undefined
+    ? Date.UTC(Number(y), Number(mo) - 1, Number(d) + 1)
+    : Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(sec));
+
+  // Correct the guess by the zone offset, twice in case it crosses a DST change
+  let utc = local - zoneOffset(local, timezone);
+  utc = local - zoneOffset(utc, timezone);
+  return utc;
+}
+
+function scheduleInactiveReason(schedule: AllowlistSchedule | undefined, now: Date): string | undefined {
+  if (!schedule) return undefined;
+
+  if (schedule.expires && now.getTime() >= expiryTime(schedule.expires, schedule.timezone)) {
+    return `entry expired at ${schedule.expires}`;
   }
 
-  try {
-    const content = readFileSync(filePath, "utf-8");
-    const data = JSON.parse(content);
+  if (!schedule.days && !schedule.hours) return undefined;
+  const local = localTime(now, schedule.timezone);
+  const zone = schedule.timezone ? ` (${schedule.timezone})` : "";
+
+  if (schedule.days && !schedule.days.includes(local.day)) {
+    return `entry is only active on ${schedule.days.join(", ")}${zone}`;
+  }
+
+  if (schedule.hours) {
+    const [, sh, sm, eh, em, midnight] = schedule.hours.match(HOURS_PATTERN)!;
+    const start = Number(sh) * 60 + Number(sm);
+    const end = midnight ? 24 * 60 : Number(eh) * 60 + Number(em);
+    // end < start means the window wraps past midnight (e.g. 22:00-06:00)
+    const inWindow = start <= end
+      ? local.minutes >= start && local.minutes < end
+      : local.minutes >= start || local.minutes < end;
+    if (!inWindow) return `entry is only active ${schedule.hours}${zone}`;
+  }
+
+  return undefined;
+}
 
-    cachedAllowlist = {
-      inbound: Array.isArray(data.inbound) ? data.inbound.map(normalizeNumber) : [],
-      outbound: Array.isArray(data.outbound) ? data.outbound.map(normalizeNumber) : [],
+/**
+ * Compile a normalized entry into a matcher.
+ */
+function compileRule(pattern: string, extra: { reason?: string; schedule?: AllowlistSchedule } = {}): CompiledRule {
+  const base = {
+    pattern,
+    ...(extra.reason ? { reason: extra.reason } : {}),
+    ...(extra.schedule ? { schedule: extra.schedule } : {}),
+    inactiveReason: (now: Date) => scheduleInactiveReason(extra.schedule, now),
+  };
+
+  const range = pattern.match(RANGE_PATTERN);
+  if (range) {
+    const [, from, to] = range;
+    return {
+      ...base,
+      kind: "range",
+      matches: (number) => number.length === from.length && number >= from && number <= to,
     };
+  }
+
+  if (/[*?]/.test(pattern)) {
+    const regex = new RegExp(`^${pattern.replace(/\*/g, "\\d*").replace(/\?/g, "\\d")}$`);
+    return { ...base, kind: "wildcard", matches: (number) => regex.test(number) };
+  }
+
+  return { ...base, kind: "exact", matches: (number) => number === pattern };
+}
+
+function toRule(rule: CompiledRule): AllowlistRule {
+  const { matches: _matches, inactiveReason: _inactiveReason, ...plain } = rule;
+  return plain;
+}
+
+/**
+ * Find the active rule that matches a number. Exact entries win over ranges,
+ * and ranges over wildcards, so the reported rule is the most specific one.
+ * If entries match but none is active at `now`, the most specific of those
+ * is returned as `inactive` together with the reason.
+ */
+function findMatch(
+  rules: CompiledRule[],
+  number: string,
+  now: Date
+): { rule?: AllowlistRule; inactive?: { rule: AllowlistRule; reason: string } } {
+  const order: AllowlistRuleKind[] = ["exact", "range", "wildcard"];
+  let inactive: { rule: AllowlistRule; reason: string } | undefined;
+
+  for (const kind of order) {
+    for (const rule of rules) {
+      if (rule.kind !== kind || !rule.matches(number)) continue;
+      const reason = rule.inactiveReason(now);
+      if (!reason) return { rule: toRule(rule) };
+      inactive ??= { rule: toRule(rule), reason };
+    }
+  }
+  return { inactive };
+}
+
+// ── File schema ─────────────────────────────────────────────────────────
+
+/**
+ * Validate a pattern string. Returns an error message, or undefined if valid.
+ */
+function patternError(value: string): string | undefined {
+  const compact = value.replace(/[\s().]/g, "");
+  const range = compact.match(RANGE_PATTERN);
+  if (range) {
+    return normalizePatternPrefix(range[1]).length === normalizePatternPrefix(range[2]).length
+      ? undefined
+      : "range bounds must have the same number of digits";
+  }
+  if (!/^\+?[\d*?]+$/.test(compact) || !normalizePattern(value)) {
+    return "entry must be a number, wildcard (e.g. '65*') or range (e.g. '659654250-659654259')";
+  }
+  return undefined;
+}
+
+export const AllowlistRuleSchema = z.string().min(1, "entry is required").superRefine((value, ctx) => {
+  const error = patternError(value);
+  if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+});
+
+export const AllowlistScheduleSchema = z.object({
+  days: z.array(z.enum(WEEKDAYS)).min(1).optional(),
+  hours: z.string().optional(),
+  timezone: z.string().optional(),
+  expires: z.string().optional(),
+}).strict().superRefine((schedule, ctx) => {
+  const error = validateSchedule(schedule);
+  if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+});
+
+const AllowEntrySchema = z.union([
+  AllowlistRuleSchema,
+  z.object({ pattern: AllowlistRuleSchema, schedule: AllowlistScheduleSchema.optional() }).strict(),
+]);
+
+const DenyEntrySchema = z.union([
+  AllowlistRuleSchema,
+  z.object({ pattern: AllowlistRuleSchema, reason: z.string().optional() }).strict(),
+]);
+
+const HangupCauseSchema = z.enum(HANGUP_CAUSES);
+
+export const RejectionPolicySchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("hangup"), cause: HangupCauseSchema.optional() }).strict(),
+  z.object({
+    action: z.literal("play"),
+    media: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]),
+    cause: HangupCauseSchema.optional(),
+  }).strict(),
+  z.object({
+    action: z.literal("speak"),
+    text: z.string().min(1).max(5000),
+    voice: z.string().optional(),
+    language: z.string().optional(),
+    cause: HangupCauseSchema.optional(),
+  }).strict(),
+  z.object({
+    action: z.literal("continue"),
+    context: z.string().min(1),
+    extension: z.string().optional(),
+    priority: z.number().int().min(1).optional(),
+  }).strict(),
+]);
+
+const RejectionPoliciesSchema = z.object({
+  "denied": RejectionPolicySchema.optional(),
+  "outside-schedule": RejectionPolicySchema.optional(),
+  "no-match": RejectionPolicySchema.optional(),
+  "no-number": RejectionPolicySchema.optional(),
+  "default": RejectionPolicySchema.optional(),
+}).strict();
+
+/** Zod equivalent of allowlist.schema.json. */
+export const AllowlistFileSchema = z.object({
+  $schema: z.string().optional(),
+  description: z.string().optional(),
+  inbound: z.array(AllowEntrySchema),
+  outbound: z.array(AllowEntrySchema),
+  deny: z.object({
+    inbound: z.array(DenyEntrySchema).optional(),
+    outbound: z.array(DenyEntrySchema).optional(),
+  }).strict().optional(),
+  rejection: RejectionPoliciesSchema.optional(),
+}).strict();
+
+export type AllowlistFileInput = z.infer<typeof AllowlistFileSchema>;
+
+/**
+ * Build an allowlist from validated file content, normalizing every pattern.
+ */
+function toAllowlist(data: Omit<AllowlistFileInput, "$schema" | "description">): Allowlist {
+  const allow = (entry: string | AllowlistEntry): AllowlistEntry => {
+    if (typeof entry === "string") return { pattern: normalizePattern(entry) };
+    const pattern = normalizePattern(entry.pattern);
+    return entry.schedule ? { pattern, schedule: entry.schedule } : { pattern };
+  };
+  const deny = (entry: string | DenyEntry): DenyEntry => {
+    if (typeof entry === "string") return { pattern: normalizePattern(entry) };
+    const pattern = normalizePattern(entry.pattern);
+    return entry.reason ? { pattern, reason: entry.reason } : { pattern };
+  };
+
+  return {
+    inbound: data.inbound.map(allow),
+    outbound: data.outbound.map(allow),
+    deny: {
+      inbound: (data.deny?.inbound ?? []).map(deny),
+      outbound: (data.deny?.outbound ?? []).map(deny),
+    },
+    rejection: data.rejection ?? {},
+  };
+}
 
-    console.log(
-      `[Allowlist] Loaded — inbound: ${cachedAllowlist.inbound.length}, outbound: ${cachedAllowlist.outbound.length}`
+function emptyAllowlist(): Allowlist {
+  return { inbound: [], outbound: [], deny: { inbound: [], outbound: [] }, rejection: {} };
+}
+
+function setAllowlist(allowlist: Allowlist): Allowlist {
+  cachedAllowlist = allowlist;
+  compiledRules = {
+    inbound: allowlist.inbound.map((entry) => compileRule(entry.pattern, { schedule: entry.schedule })),
+    outbound: allowlist.outbound.map((entry) => compileRule(entry.pattern, { schedule: entry.schedule })),
+    denyInbound: allowlist.deny.inbound.map((entry) => compileRule(entry.pattern, { reason: entry.reason })),
+    denyOutbound: allowlist.deny.outbound.map((entry) => compileRule(entry.pattern, { reason: entry.reason })),
+  };
+  return cachedAllowlist;
+}
+
+/**
+ * Convert an allowlist to the allowlist.json shape (plain strings where possible).
+ */
+export function serializeAllowlist(allowlist: Allowlist): AllowlistFile {
+  return {
+    inbound: allowlist.inbound.map((e) => (e.schedule ? e : e.pattern)),
+    outbound: allowlist.outbound.map((e) => (e.schedule ? e : e.pattern)),
+    deny: {
+      inbound: allowlist.deny.inbound.map((e) => (e.reason ? e : e.pattern)),
+      outbound: allowlist.deny.outbound.map((e) => (e.reason ? e : e.pattern)),
+    },
+    ...(Object.keys(allowlist.rejection).length > 0 ? { rejection: allowlist.rejection } : {}),
+  };
+}
+
+/**
+ * Set loader options. With failClosed, a missing allowlist.json blocks all
+ * calls instead of allowing everything.
+ */
+export function configureAllowlist(options: { failClosed?: boolean }): void {
+  failClosed = options.failClosed ?? failClosed;
+}
+
+function describeCounts(allowlist: Allowlist): string {
+  return `inbound: ${allowlist.inbound.length}, outbound: ${allowlist.outbound.length}, ` +
+    `deny inbound: ${allowlist.deny.inbound.length}, deny outbound: ${allowlist.deny.outbound.length}`;
+}
+
+/**
+ * Record a rejected file. The last good allowlist stays active; without
+ * one, all calls are blocked.
+ */
+function rejectFile(filePath: string, message: string, issues?: string[]): Allowlist {
+  loadError = { path: filePath, message, issues, at: new Date() };
+  console.error(`[Allowlist] Rejected ${filePath}: ${message}${issues ? `\n  ${issues.join("\n  ")}` : ""}`);
+
+  if (!cachedAllowlist || closed) {
+    console.error("[Allowlist] No previous allowlist — blocking all calls until the file is fixed");
+    closed = true;
+    setAllowlist(emptyAllowlist());
+  } else {
+    console.warn("[Allowlist] Keeping the previous allowlist");
+  }
+
+  allowlistEvents.emit("invalid", loadError);
+  return cachedAllowlist!;
+}
+
+/**
+ * Load the allowlist from allowlist.json. A missing file means open mode (or
+ * fail-closed) only until a file has been loaded; after that it is rejected
+ * like an invalid one.
+ */
+export function loadAllowlist(customPath?: string): Allowlist {
+  const filePath = customPath || DEFAULT_ALLOWLIST_PATH;
+  allowlistPath = filePath;
+
+  if (!existsSync(filePath)) {
+    // Deleted or renamed after a successful load: keep the last good allowlist
+    if (loadedAt) return rejectFile(filePath, "File not found");
+
+    loadError = undefined;
+    closed = failClosed;
+    console.warn(
+      `[Allowlist] File not found: ${filePath} — ` +
+      (failClosed ? "blocking all calls (ALLOWLIST_FAIL_CLOSED)" : "using empty allowlist")
     );
+    return setAllowlist(emptyAllowlist());
+  }
 
-    return cachedAllowlist;
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(filePath, "utf-8"));
   } catch (err) {
-    console.error(`[Allowlist] Failed to load ${filePath}:`, err);
-    cachedAllowlist = { inbound: [], outbound: [] };
-    return cachedAllowlist;
+    return rejectFile(filePath, err instanceof Error ? err.message : String(err));
+  }
+
+  const parsed = AllowlistFileSchema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.errors.map((e) => `${e.path.join(".") || "(root)"}: ${e.message}`);
+    return rejectFile(filePath, "File does not match allowlist.schema.json", issues);
   }
+
+  const allowlist = setAllowlist(toAllowlist(parsed.data));
+  closed = false;
+  loadedAt = new Date();
+  loadError = undefined;
+
+  console.log(`[Allowlist] Loaded — ${describeCounts(allowlist)}`);
+  allowlistEvents.emit("loaded", allowlist);
+  return allowlist;
 }
 
 /**
- * Watch the allowlist file for changes and reload automatically
+ * Watch the allowlist file for changes and reload automatically.
+ * A missing file is watched too, so creating it takes effect.
  */
 export function watchAllowlist(): void {
-  if (!allowlistPath || !existsSync(allowlistPath)) return;
+  if (!allowlistPath) return;
 
   watchFile(allowlistPath, { interval: 5000 }, () => {
     console.log("[Allowlist] File changed, reloading...");
@@ -89,6 +628,18 @@ export function watchAllowlist(): void {
   });
 }
 
+/**
+ * Where the active allowlist came from and whether the file on disk was rejected.
+ */
+export function getAllowlistStatus(): AllowlistStatus {
+  return {
+    path: allowlistPath || DEFAULT_ALLOWLIST_PATH,
+    loadedAt,
+    error: loadError,
+    closed,
+  };
+}
+
 /**
  * Get the current allowlist (loads if not cached)
  */
@@ -100,56 +651,204 @@ export function getAllowlist(): Allowlist {
 }
 
 /**
- * Check if a phone number is allowed for outbound calls
+ * Evaluate a number against the deny rules, then the allow rules, of one direction.
  */
-export function isOutboundAllowed(endpoint: string): boolean {
+function evaluate(direction: AllowlistDirection, number: string, now: Date, source: string): AllowlistDecision {
   const allowlist = getAllowlist();
+  const label = direction === "inbound" ? "Inbound" : "Outbound";
+  const denyRules = direction === "inbound" ? compiledRules.denyInbound : compiledRules.denyOutbound;
+
+  if (closed) {
+    const reason = loadError
+      ? `Allowlist file is invalid (${loadError.message}) — all calls are blocked`
+      : "No allowlist file — all calls are blocked (fail-closed)";
+    console.warn(`[Allowlist] ${label} blocked: ${number || "unknown"}${source} — ${reason}`);
+    return { allowed: false, number, outcome: "closed", reason };
+  }
+
+  // Deny rules take precedence, even in open mode
+  const denied = number ? findMatch(denyRules, number, now).rule : undefined;
+  if (denied) {
+    console.warn(`[Allowlist] ${label} denied: ${number}${source} by ${denied.pattern}`);
+    return {
+      allowed: false,
+      number,
+      rule: denied,
+      outcome: "denied",
+      reason: denied.reason || `Matched deny rule ${denied.pattern}`,
+    };
+  }
 
   // If allowlist is empty, allow all (open mode)
-  if (allowlist.outbound.length === 0) {
-    return true;
+  if (allowlist[direction].length === 0) {
+    return { allowed: true, number, outcome: "open" };
   }
 
-  const number = extractNumberFromEndpoint(endpoint);
   if (!number) {
-    console.warn(`[Allowlist] Could not extract number from endpoint: ${endpoint}`);
-    return false;
+    const reason = direction === "inbound" ? "No caller ID" : "Could not extract a number from the endpoint";
+    console.warn(`[Allowlist] ${label} blocked: ${reason}${source}`);
+    return { allowed: false, number, outcome: "no-number", reason };
+  }
+
+  const match = findMatch(compiledRules[direction], number, now);
+  if (match.rule) {
+    return { allowed: true, number, rule: match.rule, outcome: "matched" };
   }
 
-  const allowed = allowlist.outbound.includes(number);
-  if (!allowed) {
-    console.warn(`[Allowlist] Outbound blocked: ${number} (from ${endpoint})`);
+  if (match.inactive) {
+    console.warn(`[Allowlist] ${label} blocked: ${number}${source} — ${match.inactive.rule.pattern} ${match.inactive.reason}`);
+    return {
+      allowed: false,
+      number,
+      rule: match.inactive.rule,
+      outcome: "outside-schedule",
+      reason: `Matched ${match.inactive.rule.pattern}, but ${match.inactive.reason}`,
+    };
   }
-  return allowed;
+
+  console.warn(`[Allowlist] ${label} blocked: ${number}${source}`);
+  return { allowed: false, number, outcome: "no-match", reason: `Number is not on the ${direction} allowlist` };
+}
+
+/**
+ * Check an outbound endpoint against the allowlist and report which rule matched
+ */
+export function checkOutbound(endpoint: string, now = new Date()): AllowlistDecision {
+  return evaluate("outbound", extractNumberFromEndpoint(endpoint), now, ` (from ${endpoint})`);
+}
+
+/**
+ * Check an inbound caller ID against the allowlist and report which rule matched
+ */
+export function checkInbound(callerId: string | undefined | null, now = new Date()): AllowlistDecision {
+  return evaluate("inbound", normalizeNumber(callerId), now, "");
+}
+
+/**
+ * Rejection treatment for a blocked inbound call: the policy configured for
+ * the decision's outcome, else the default policy, else a plain hangup.
+ */
+export function getRejectionPolicy(outcome: AllowlistDecision["outcome"]): RejectionPolicy {
+  const rejection = getAllowlist().rejection;
+  return rejection[outcome as RejectionOutcome] ?? rejection.default ?? { action: "hangup" };
+}
+
+/**
+ * Check if a phone number is allowed for outbound calls
+ */
+export function isOutboundAllowed(endpoint: string): boolean {
+  return checkOutbound(endpoint).allowed;
 }
 
 /**
  * Check if a caller ID is allowed for inbound calls
  */
 export function isInboundAllowed(callerId: string | undefined | null): boolean {
-  const allowlist = getAllowlist();
+  return checkInbound(callerId).allowed;
+}
 
-  // If allowlist is empty, allow all (open mode)
-  if (allowlist.inbound.length === 0) {
-    return true;
+/**
+ * Reload the allowlist from disk
+ */
+export function reloadAllowlist(): Allowlist {
+  return loadAllowlist(allowlistPath || undefined);
+}
+
+// ── Editing + persistence ───────────────────────────────────────────────
+
+/**
+ * Write the allowlist to disk atomically (temp file + rename) so the
+ * file watcher and other readers never see a half-written file.
+ * Top-level keys not managed here ($schema, description) are preserved.
+ */
+function saveAllowlist(allowlist: Allowlist): void {
+  const filePath = allowlistPath || DEFAULT_ALLOWLIST_PATH;
+
+  let existing: Record<string, unknown> = {};
+  if (existsSync(filePath)) {
+    try {
+      existing = JSON.parse(readFileSync(filePath, "utf-8"));
+    } catch {
+      // Unreadable file is replaced entirely
+    }
   }
 
-  const number = normalizeNumber(callerId);
-  if (!number) {
-    console.warn(`[Allowlist] Inbound call with no caller ID — blocked`);
-    return false;
+  const unmanaged = {
+    ...(typeof existing.$schema === "string" ? { $schema: existing.$schema } : {}),
+    ...(typeof existing.description === "string" ? { description: existing.description } : {}),
+  };
+  const data = { ...unmanaged, ...serializeAllowlist(allowlist) };
+
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  try {
+    writeFileSync(tempPath, JSON.stringify(data, null, 2) + "\n", "utf-8");
+    renameSync(tempPath, filePath);
+  } catch (err) {
+    try { unlinkSync(tempPath); } catch { /* temp file may not exist */ }
+    throw err;
   }
 
-  const allowed = allowlist.inbound.includes(number);
-  if (!allowed) {
-    console.warn(`[Allowlist] Inbound blocked: ${number}`);
+  allowlistPath = filePath;
+  // The file on disk is valid again
+  closed = false;
+  loadedAt = new Date();
+  loadError = undefined;
+  console.log(`[Allowlist] Saved — ${describeCounts(allowlist)}`);
+}
+
+/**
+ * Add an entry to the inbound or outbound allowlist and persist it.
+ * An existing entry with the same pattern gets its schedule replaced.
+ */
+export function addAllowlistEntry(
+  direction: AllowlistDirection,
+  entry: string,
+  schedule?: AllowlistSchedule
+): "added" | "updated" | "exists" {
+  const current = getAllowlist();
+  const pattern = normalizePattern(entry);
+  if (!pattern) throw new Error(`Invalid allowlist entry: '${entry}'`);
+  if (schedule) {
+    const error = validateSchedule(schedule);
+    if (error) throw new Error(`Invalid schedule for ${pattern}: ${error}`);
   }
-  return allowed;
+
+  const newEntry: AllowlistEntry = schedule ? { pattern, schedule } : { pattern };
+  const index = current[direction].findIndex((e) => e.pattern === pattern);
+  if (index >= 0 && !schedule) return "exists";
+
+  const entries = index >= 0
+    ? current[direction].map((e, i) => (i === index ? newEntry : e))
+    : [...current[direction], newEntry];
+  const next: Allowlist = { ...current, [direction]: entries };
+  saveAllowlist(next);
+  setAllowlist(next);
+  return index >= 0 ? "updated" : "added";
 }
 
 /**
- * Reload the allowlist from disk
+ * Remove an entry from the inbound or outbound allowlist and persist the change.
+ * Returns false if the entry was not found.
  */
-export function reloadAllowlist(): Allowlist {
-  return loadAllowlist(allowlistPath || undefined);
+export function removeAllowlistEntry(direction: AllowlistDirection, entry: string): boolean {
+  const current = getAllowlist();
+  const pattern = normalizePattern(entry);
+  if (!current[direction].some((e) => e.pattern === pattern)) return false;
+
+  const next: Allowlist = { ...current, [direction]: current[direction].filter((e) => e.pattern !== pattern) };
+  saveAllowlist(next);
+  setAllowlist(next);
+  return true;
+}
+
+/**
+ * Replace the whole allowlist and persist it. Entries are normalized the
+ * same way as when loading from disk; an omitted deny section is cleared,
+ * an omitted rejection section keeps the current policies.
+ */
+export function replaceAllowlist(data: Omit<AllowlistFileInput, "$schema" | "description">): Allowlist {
+  const parsed = AllowlistFileSchema.parse(data);
+  const next = toAllowlist({ ...parsed, rejection: parsed.rejection ?? getAllowlist().rejection });
+  saveAllowlist(next);
+  return setAllowlist(next);
 }
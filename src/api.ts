@@ -3,44 +3,89 @@ import { z } from "zod";
 import type { Config } from "./config.js";
 import { AriConnection, AriError } from "./ari-connection.js";
 import type { CallManager } from "./call-manager.js";
-import { isOutboundAllowed, extractNumberFromEndpoint, getAllowlist, reloadAllowlist } from "./allowlist.js";
+import type { BlockedCallLog } from "./blocked-log.js";
+import { OutboundRateLimiter } from "./rate-limit.js";
+import { InvalidCursorError } from "./call-store.js";
+import { buildCdr, toCsv } from "./cdr.js";
+import { TRANSCRIPT_FORMATS, toTranscriptText, toWebVtt } from "./transcript.js";
+import { CALL_STATES, LEG_END_POLICIES } from "./types.js";
+import { extractNumberFromEndpoint } from "./phone-number.js";
+import { HANGUP_CAUSES } from "./hangup-cause.js";
+import {
+  checkOutbound,
+  checkInbound,
+  getRejectionPolicy,
+  getAllowlist,
+  reloadAllowlist,
+  normalizePattern,
+  addAllowlistEntry,
+  removeAllowlistEntry,
+  replaceAllowlist,
+  serializeAllowlist,
+  getAllowlistStatus,
+  AllowlistRuleSchema,
+  AllowlistScheduleSchema,
+  AllowlistFileSchema,
+  type AllowlistDirection,
+} from "./allowlist.js";
 
 // ── Zod request body schemas ────────────────────────────────────────────
+// Call control schemas are exported for the JSON-RPC methods on /events (ws-rpc.ts).
+
+/** Client metadata is stored on the channel too, so keep it small */
+const MAX_METADATA_BYTES = 4096;
+
+const MetadataSchema = z.record(z.unknown()).refine(
+  (metadata) => Buffer.byteLength(JSON.stringify(metadata)) <= MAX_METADATA_BYTES,
+  `metadata must be at most ${MAX_METADATA_BYTES} bytes as JSON`
+);
+
+const ClientReferenceSchema = z.string().min(1).max(256);
 
 const OriginateRequestSchema = z.object({
   endpoint: z.string().min(1, "endpoint is required (e.g. 'PJSIP/1001')"),
   callerId: z.string().optional(),
   timeout: z.number().int().min(1).max(120).optional(),
   variables: z.record(z.string()).optional(),
+  metadata: MetadataSchema.optional(),
+  clientReference: ClientReferenceSchema.optional(),
 });
 
-const PlayRequestSchema = z.object({
+export const UpdateCallRequestSchema = z.object({
+  metadata: MetadataSchema.optional(),
+  clientReference: ClientReferenceSchema.nullable().optional(),
+}).strict().refine(
+  (body) => body.metadata !== undefined || body.clientReference !== undefined,
+  "metadata or clientReference is required"
+);
+
+export const PlayRequestSchema = z.object({
   media: z.union([
     z.string().min(1, "media is required (e.g. 'sound:hello-world')"),
     z.array(z.string().min(1)).min(1, "media array must have at least one item"),
   ]),
 });
 
-const RecordRequestSchema = z.object({
+export const RecordRequestSchema = z.object({
   name: z.string().optional(),
   format: z.enum(["wav", "gsm", "ulaw", "alaw", "sln", "sln16"]).optional(),
   maxDurationSeconds: z.number().int().min(1).max(7200).optional(),
   beep: z.boolean().optional(),
 });
 
-const DtmfRequestSchema = z.object({
+export const DtmfRequestSchema = z.object({
   dtmf: z.string().min(1, "dtmf is required").regex(/^[0-9A-D*#]+$/i, "dtmf must contain valid DTMF characters (0-9, A-D, *, #)"),
 });
 
-const SpeakRequestSchema = z.object({
+export const SpeakRequestSchema = z.object({
   text: z.string().min(1, "text is required").max(5000, "text must be 5000 characters or fewer"),
   voice: z.string().optional(),
   language: z.string().optional(),
   speed: z.number().min(0.25).max(4.0).optional(),
 });
 
-const HangupRequestSchema = z.object({
-  reason: z.string().optional(),
+export const HangupRequestSchema = z.object({
+  reason: z.enum(HANGUP_CAUSES).optional(),
 }).optional();
 
 const CreateBridgeRequestSchema = z.object({
@@ -55,37 +100,169 @@ const TransferRequestSchema = z.object({
   endpoint: z.string().min(1, "endpoint is required (e.g. 'PJSIP/1001')"),
   callerId: z.string().optional(),
   timeout: z.number().int().min(1).max(120).optional(),
+  onLegEnd: z.enum(LEG_END_POLICIES).optional(),
 });
 
 const CopyRecordingRequestSchema = z.object({
   destinationName: z.string().min(1, "destinationName is required"),
 });
 
+const AllowlistEntryRequestSchema = z.object({
+  number: AllowlistRuleSchema,
+  schedule: AllowlistScheduleSchema.optional(),
+});
+
+const ReplaceAllowlistRequestSchema = AllowlistFileSchema.omit({ $schema: true, description: true });
+
+const BlockedQuerySchema = z.object({
+  direction: z.enum(["inbound", "outbound"]).optional(),
+  number: z.string().optional(),
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).optional(),
+});
+
+const CallHistoryQuerySchema = z.object({
+  direction: z.enum(["inbound", "outbound"]).optional(),
+  number: z.string().optional(),
+  state: z.enum(CALL_STATES).optional(),
+  hangupCause: z.string().optional(),
+  hangupCauseCode: z.coerce.number().int().min(0).optional(),
+  hangupBy: z.enum(["caller", "api", "system"]).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+  cursor: z.string().optional(),
+});
+
+const CdrQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  format: z.enum(["json", "csv"]).default("json"),
+});
+
+const TranscriptQuerySchema = z.object({
+  format: z.enum(TRANSCRIPT_FORMATS).default("json"),
+});
+
+const AllowlistCheckQuerySchema = z.object({
+  direction: z.enum(["inbound", "outbound"]),
+  number: z.string().min(1, "number is required (caller ID or endpoint)"),
+});
+
 // ── Helpers ─────────────────────────────────────────────────────────────
 
+/**
+ * Single-entry edits would overwrite an invalid allowlist.json with the last
+ * good version, discarding the operator's changes. In closed mode (no valid
+ * file, everything blocked) they would save a file holding just that entry and
+ * open the other direction to every number. Returns true if rejected.
+ */
+function rejectWhileFileInvalid(res: Response): boolean {
+  const { error, closed } = getAllowlistStatus();
+  if (error) {
+    res.status(409).json({
+      error: "allowlist.json on disk is invalid — fix the file or replace it with PUT /allowlist first",
+      details: error,
+    });
+    return true;
+  }
+  if (closed) {
+    res.status(409).json({
+      error: "No allowlist.json and all calls are blocked (fail-closed) — create the file with PUT /allowlist first",
+    });
+    return true;
+  }
+  return false;
+}
+
 /** Map an error to the appropriate HTTP status + JSON body. */
-function errorResponse(res: Response, err: unknown): void {
+export function describeError(err: unknown): { status: number; body: { error: string; details?: string[] } } {
   if (err instanceof AriError) {
-    res.status(err.statusCode).json({ error: err.message });
-    return;
+    return { status: err.statusCode, body: { error: err.message } };
   }
 
   if (err instanceof z.ZodError) {
     const messages = err.errors.map((e) => `${e.path.join(".")}: ${e.message}`);
-    res.status(400).json({ error: "Validation failed", details: messages });
-    return;
+    return { status: 400, body: { error: "Validation failed", details: messages } };
   }
 
   const message = err instanceof Error ? err.message : String(err);
-  res.status(500).json({ error: message });
+  return { status: 500, body: { error: message } };
+}
+
+function errorResponse(res: Response, err: unknown): void {
+  const { status, body } = describeError(err);
+  res.status(status).json(body);
 }
 
 // ── API factory ─────────────────────────────────────────────────────────
 
-export function createApi(config: Config, ariConn: AriConnection, callManager: CallManager) {
+export function createApi(
+  config: Config,
+  ariConn: AriConnection,
+  callManager: CallManager,
+  blockedLog?: BlockedCallLog
+) {
   const app = express();
   app.use(express.json());
 
+  const outboundLimiter = new OutboundRateLimiter(config.outbound, callManager);
+
+  /**
+   * Apply outbound rate limits to a dial string. Returns true if the request was
+   * rejected; otherwise the call must be placed through withOutboundSlot().
+   */
+  const rejectIfRateLimited = (res: Response, endpoint: string): boolean => {
+    const decision = outboundLimiter.acquire(extractNumberFromEndpoint(endpoint));
+    if (decision.allowed) return false;
+    if (decision.retryAfterSeconds !== undefined) {
+      res.setHeader("Retry-After", String(decision.retryAfterSeconds));
+    }
+    res.status(429).json({
+      error: "Outbound call rate limit exceeded",
+      limit: decision.limit,
+      reason: decision.reason,
+      retryAfterSeconds: decision.retryAfterSeconds,
+      endpoint,
+    });
+    return true;
+  };
+
+  /**
+   * Originate through `run`, handing back the concurrency slot reserved by
+   * rejectIfRateLimited() once the call record exists (from then on the call
+   * itself is counted) or when the originate fails before creating it.
+   */
+  const withOutboundSlot = async <T>(run: (onCreated: () => void) => Promise<T>): Promise<T> => {
+    let reserved = true;
+    const release = () => {
+      if (!reserved) return;
+      reserved = false;
+      outboundLimiter.release();
+    };
+    try {
+      return await run(release);
+    } finally {
+      release();
+    }
+  };
+
+  /**
+   * Apply call capacity limits to a new outbound call. Returns true if the request
+   * was rejected (checked before rate limits, so refused calls use no rate budget).
+   */
+  const rejectIfOverCapacity = (res: Response): boolean => {
+    const decision = ariConn.admit("outbound");
+    if (decision.allowed) return false;
+    res.status(503).json({
+      error: "Call capacity reached",
+      limit: decision.limit,
+      reason: decision.reason,
+    });
+    return true;
+  };
+
   // API key auth middleware (skip for GET / overview)
   if (config.api.apiKey) {
     app.use((req: Request, res: Response, next: NextFunction) => {
@@ -109,20 +286,29 @@ export function createApi(config: Config, ariConn: AriConnection, callManager: C
       description: "REST API bridge between OpenClaw and Asterisk/FreePBX via ARI",
       endpoints: {
         "GET  /": "This overview",
-        "GET  /health": "Health check (ARI connection status, active call count)",
+        "GET  /health": "Health check (ARI connection status, active call count, outbound limit usage)",
         "GET  /allowlist": "View current inbound/outbound allowlist",
+        "GET  /allowlist/check": "Check a number against the allowlist ?direction=inbound|outbound&number=",
+        "GET  /allowlist/blocked": "Recent blocked call attempts ?direction=&number=&since=&until=&limit=",
         "POST /allowlist/reload": "Reload allowlist from allowlist.json",
+        "PUT  /allowlist": "Replace the allowlist and save it { inbound, outbound, deny?, rejection? }",
+        "POST /allowlist/:direction": "Add an inbound/outbound entry and save it { number, schedule? }",
+        "DELETE /allowlist/:direction/:number": "Remove an inbound/outbound entry and save it",
         "GET  /endpoints": "List available SIP/PJSIP endpoints from Asterisk",
         "GET  /calls": "List active calls",
-        "GET  /calls/:id": "Get call details",
-        "POST /calls": "Originate an outbound call { endpoint, callerId?, timeout?, variables? }",
+        "GET  /calls/history": "Ended calls, newest first ?direction=&number=&state=&hangupCause=&hangupCauseCode=&hangupBy=&from=&to=&limit=&cursor=",
+        "GET  /calls/:id": "Get call details with parent and transfer legs (active or from history)",
+        "GET  /calls/:id/events": "Ordered event timeline of a call (active or from history)",
+        "GET  /calls/:id/transcript": "Caller and agent transcript with offsets from answer ?format=json|text|vtt",
+        "POST /calls": "Originate an outbound call { endpoint, callerId?, timeout?, variables?, metadata?, clientReference? } (429 + Retry-After when rate limited, 503 over capacity)",
+        "PATCH /calls/:id": "Update client data of a call { metadata?, clientReference? } (null removes a metadata key)",
         "DELETE /calls/:id": "Hang up a call { reason? }",
         "POST /calls/:id/play": "Play audio on a call { media } (string or array for sequential playback)",
         "POST /calls/:id/speak": "Synthesize text-to-speech and play on call { text, voice?, language?, speed? }",
         "POST /calls/:id/play/file": "Upload raw WAV audio and play it (Content-Type: audio/wav, body = raw bytes)",
         "POST /calls/:id/record": "Start recording { name?, format?, maxDurationSeconds?, beep? }",
         "POST /calls/:id/dtmf": "Send DTMF tones { dtmf }",
-        "POST /calls/:id/transfer": "Transfer call to endpoint { endpoint, callerId?, timeout? }",
+        "POST /calls/:id/transfer": "Transfer call to endpoint { endpoint, callerId?, timeout?, onLegEnd? }",
         "POST /calls/:id/audio/start": "Start real-time audio capture (emits audio frames via WebSocket)",
         "POST /calls/:id/audio/stop": "Stop audio capture",
         "POST /bridges": "Create a mixing bridge { name? }",
@@ -136,7 +322,8 @@ export function createApi(config: Config, ariConn: AriConnection, callManager: C
         "GET  /recordings/:name/file": "Download a stored recording (audio/wav)",
         "POST /recordings/:name/copy": "Copy a stored recording { destinationName }",
         "DELETE /recordings/:name": "Stop live recording, or delete stored (?stored=true)",
-        "WS   /events": "WebSocket stream of real-time call events",
+        "GET  /cdr": "Call detail records of ended calls, one row per call ?from=&to=&format=json|csv",
+        "WS   /events": "WebSocket stream of real-time call events; also accepts call control requests { id, method, params }",
       },
     });
   });
@@ -148,31 +335,133 @@ export function createApi(config: Config, ariConn: AriConnection, callManager: C
       status: "ok",
       ari: ariConn.isConnected(),
       activeCalls: callManager.listActive().length,
+      outbound: outboundLimiter.usage(),
+      capacity: ariConn.capacityUsage(),
     });
   });
 
   // ── GET /allowlist ─────────────────────────────────────────────────
 
   app.get("/allowlist", (_req: Request, res: Response) => {
-    const allowlist = getAllowlist();
+    const status = getAllowlistStatus();
     res.json({
-      inbound: allowlist.inbound,
-      outbound: allowlist.outbound,
-      note: "Empty arrays = allow all (open mode)",
+      ...serializeAllowlist(getAllowlist()),
+      status: status.closed ? "closed" : status.error ? "stale" : "ok",
+      path: status.path,
+      loadedAt: status.loadedAt,
+      error: status.error,
+      note: "Empty arrays = allow all (open mode); deny rules are checked first. Entries may be exact numbers, wildcards (65*) or ranges (659654250-659654259)",
     });
   });
 
+  // ── GET /allowlist/check — which rule matches a number ────────────
+
+  app.get("/allowlist/check", (req: Request, res: Response) => {
+    try {
+      const query = AllowlistCheckQuerySchema.parse(req.query);
+      const decision = query.direction === "outbound"
+        ? checkOutbound(query.number)
+        : checkInbound(query.number);
+      // Show what a blocked inbound caller would experience
+      const rejection = query.direction === "inbound" && !decision.allowed
+        ? getRejectionPolicy(decision.outcome)
+        : undefined;
+      res.json({ direction: query.direction, ...decision, rejection });
+    } catch (err: unknown) {
+      errorResponse(res, err);
+    }
+  });
+
+  // ── GET /allowlist/blocked — recent blocked attempts ──────────────
+
+  app.get("/allowlist/blocked", (req: Request, res: Response) => {
+    try {
+      const query = BlockedQuerySchema.parse(req.query);
+      res.json({ blocked: blockedLog?.query(query) ?? [] });
+    } catch (err: unknown) {
+      errorResponse(res, err);
+    }
+  });
+
   // ── POST /allowlist/reload ─────────────────────────────────────────
 
   app.post("/allowlist/reload", (_req: Request, res: Response) => {
     const allowlist = reloadAllowlist();
+    const { error, closed } = getAllowlistStatus();
+    if (error) {
+      res.status(422).json({
+        status: "rejected",
+        error,
+        note: closed ? "No valid allowlist — all calls are blocked" : "The previous allowlist is still active",
+        ...serializeAllowlist(allowlist),
+      });
+      return;
+    }
     res.json({
       status: "reloaded",
-      inbound: allowlist.inbound,
-      outbound: allowlist.outbound,
+      ...serializeAllowlist(allowlist),
     });
   });
 
+  // ── PUT /allowlist — replace and persist ───────────────────────────
+
+  app.put("/allowlist", (req: Request, res: Response) => {
+    try {
+      const body = ReplaceAllowlistRequestSchema.parse(req.body);
+      const allowlist = replaceAllowlist(body);
+      res.json({
+        status: "saved",
+        ...serializeAllowlist(allowlist),
+      });
+    } catch (err: unknown) {
+      console.error("[API] Replace allowlist error:", err);
+      errorResponse(res, err);
+    }
+  });
+
+  // ── POST /allowlist/:direction — add an entry ──────────────────────
+
+  app.post("/allowlist/:direction(inbound|outbound)", (req: Request, res: Response) => {
+    try {
+      const direction = req.params.direction as AllowlistDirection;
+      const body = AllowlistEntryRequestSchema.parse(req.body);
+      if (rejectWhileFileInvalid(res)) return;
+      const status = addAllowlistEntry(direction, body.number, body.schedule);
+      res.status(status === "added" ? 201 : 200).json({
+        status,
+        direction,
+        entry: normalizePattern(body.number),
+        [direction]: serializeAllowlist(getAllowlist())[direction],
+      });
+    } catch (err: unknown) {
+      console.error("[API] Add allowlist entry error:", err);
+      errorResponse(res, err);
+    }
+  });
+
+  // ── DELETE /allowlist/:direction/:number — remove an entry ─────────
+
+  app.delete("/allowlist/:direction(inbound|outbound)/:number", (req: Request, res: Response) => {
+    try {
+      const direction = req.params.direction as AllowlistDirection;
+      if (rejectWhileFileInvalid(res)) return;
+      const removed = removeAllowlistEntry(direction, req.params.number);
+      if (!removed) {
+        res.status(404).json({ error: `Entry '${req.params.number}' not found in ${direction} allowlist` });
+        return;
+      }
+      res.json({
+        status: "removed",
+        direction,
+        entry: normalizePattern(req.params.number),
+        [direction]: serializeAllowlist(getAllowlist())[direction],
+      });
+    } catch (err: unknown) {
+      console.error("[API] Remove allowlist entry error:", err);
+      errorResponse(res, err);
+    }
+  });
+
   // ── GET /endpoints — list SIP endpoints ────────────────────────────
 
   app.get("/endpoints", async (_req: Request, res: Response) => {
@@ -191,15 +480,93 @@ export function createApi(config: Config, ariConn: AriConnection, callManager: C
     res.json({ calls: callManager.listActive() });
   });
 
+  // ── GET /cdr — call detail records ─────────────────────────────────
+
+  app.get("/cdr", async (req: Request, res: Response) => {
+    try {
+      const { format, ...range } = CdrQuerySchema.parse(req.query);
+      const rows = await buildCdr(callManager, range);
+      if (format === "csv") {
+        res.type("text/csv").attachment("cdr.csv").send(toCsv(rows));
+        return;
+      }
+      res.json({ count: rows.length, records: rows });
+    } catch (err: unknown) {
+      console.error("[API] CDR export error:", err);
+      errorResponse(res, err);
+    }
+  });
+
   // ── GET /calls/:id ─────────────────────────────────────────────────
 
-  app.get("/calls/:id", (req: Request, res: Response) => {
-    const call = callManager.get(req.params.id);
-    if (!call) {
-      res.status(404).json({ error: "Call not found" });
-      return;
+  // Registered before /calls/:id so "history" is not taken as a call ID
+  app.get("/calls/history", async (req: Request, res: Response) => {
+    try {
+      const query = CallHistoryQuerySchema.parse(req.query);
+      const page = await callManager.queryHistory(query);
+      res.json(page);
+    } catch (err: unknown) {
+      if (err instanceof InvalidCursorError) {
+        res.status(400).json({ error: err.message });
+        return;
+      }
+      console.error("[API] Call history error:", err);
+      errorResponse(res, err);
+    }
+  });
+
+  app.get("/calls/:id", async (req: Request, res: Response) => {
+    try {
+      const call = await callManager.find(req.params.id);
+      if (!call) {
+        res.status(404).json({ error: "Call not found" });
+        return;
+      }
+      // Include the related transfer legs so the whole call is visible at once
+      const parent = call.parentCallId ? await callManager.find(call.parentCallId) : undefined;
+      const legs = await Promise.all(call.legs.map((legId) => callManager.find(legId)));
+      res.json({ call, parent, legs: legs.filter((leg) => leg !== undefined) });
+    } catch (err: unknown) {
+      errorResponse(res, err);
+    }
+  });
+
+  app.get("/calls/:id/events", async (req: Request, res: Response) => {
+    try {
+      const timeline = await callManager.findTimeline(req.params.id);
+      if (!timeline) {
+        res.status(404).json({ error: "Call not found" });
+        return;
+      }
+      res.json({ callId: req.params.id, ...timeline });
+    } catch (err: unknown) {
+      errorResponse(res, err);
+    }
+  });
+
+  // ── GET /calls/:id/transcript — transcript ──────────────────────────
+
+  app.get("/calls/:id/transcript", async (req: Request, res: Response) => {
+    try {
+      const { format } = TranscriptQuerySchema.parse(req.query);
+      const [call, transcript] = await Promise.all([
+        callManager.find(req.params.id),
+        callManager.findTranscript(req.params.id),
+      ]);
+      if (!call || !transcript) {
+        res.status(404).json({ error: "Call not found" });
+        return;
+      }
+      if (format === "text") {
+        res.type("text/plain").send(toTranscriptText(transcript));
+      } else if (format === "vtt") {
+        res.type("text/vtt").send(toWebVtt(transcript));
+      } else {
+        res.json({ callId: call.id, answeredAt: call.answeredAt, ...transcript });
+      }
+    } catch (err: unknown) {
+      errorResponse(res, err);
     }
-    res.json({ call });
   });
 
   // ── POST /calls — originate ────────────────────────────────────────
@@ -209,18 +576,31 @@ export function createApi(config: Config, ariConn: AriConnection, callManager: C
       const body = OriginateRequestSchema.parse(req.body);
 
       // Check outbound allowlist before originating
-      if (!isOutboundAllowed(body.endpoint)) {
-        const extractedNumber = extractNumberFromEndpoint(body.endpoint);
+      const decision = checkOutbound(body.endpoint);
+      if (!decision.allowed) {
+        const apiKey = req.headers["x-api-key"] || req.query.api_key;
+        blockedLog?.record("outbound", decision, {
+          endpoint: body.endpoint,
+          apiKey: typeof apiKey === "string" ? apiKey : undefined,
+        });
         res.status(403).json({
-          error: "Outbound call blocked by allowlist",
+          error: decision.outcome === "denied" ? "Outbound call blocked by denylist" : "Outbound call blocked by allowlist",
+          reason: decision.reason,
+          rule: decision.rule?.pattern,
           endpoint: body.endpoint,
-          extractedNumber: extractedNumber || "(could not extract)",
-          hint: "Add the destination number to allowlist.json outbound array",
+          extractedNumber: decision.number || "(could not extract)",
+          hint: decision.outcome === "denied"
+            ? "Remove the matching entry from allowlist.json deny.outbound"
+            : decision.outcome === "closed"
+              ? "Fix or create allowlist.json (see GET /allowlist for the load error)"
+              : "Add the destination number (or a matching prefix/range) to allowlist.json outbound array",
         });
         return;
       }
 
-      const call = await ariConn.originate(body);
+      if (rejectIfOverCapacity(res) || rejectIfRateLimited(res, body.endpoint)) return;
+
+      const call = await withOutboundSlot((onCreated) => ariConn.originate(body, onCreated));
       res.status(201).json({ call });
     } catch (err: unknown) {
       console.error("[API] Originate error:", err);
@@ -389,7 +769,31 @@ export function createApi(config: Config, ariConn: AriConnection, callManager: C
   app.post("/calls/:id/transfer", async (req: Request, res: Response) => {
     try {
       const body = TransferRequestSchema.parse(req.body);
-      const result = await ariConn.transferCall(req.params.id, body);
+      if (!callManager.get(req.params.id)) {
+        res.status(404).json({ error: `Call ${req.params.id} not found` });
+        return;
+      }
+
+      // Transfer targets are outbound calls: same allowlist and limits as POST /calls
+      const decision = checkOutbound(body.endpoint);
+      if (!decision.allowed) {
+        const apiKey = req.headers["x-api-key"] || req.query.api_key;
+        blockedLog?.record("outbound", decision, {
+          endpoint: body.endpoint,
+          apiKey: typeof apiKey === "string" ? apiKey : undefined,
+        });
+        res.status(403).json({
+          error: "Transfer target blocked by allowlist",
+          reason: decision.reason,
+          rule: decision.rule?.pattern,
+          endpoint: body.endpoint,
+          extractedNumber: decision.number || "(could not extract)",
+        });
+        return;
+      }
+      if (rejectIfOverCapacity(res) || rejectIfRateLimited(res, body.endpoint)) return;
+
+      const result = await withOutboundSlot((onCreated) => ariConn.transferCall(req.params.id, body, onCreated));
       res.status(201).json(result);
     } catch (err: unknown) {
       console.error("[API] Transfer error:", err);
@@ -397,6 +801,18 @@ export function createApi(config: Config, ariConn: AriConnection, callManager: C
     }
   });
 
+  // ── PATCH /calls/:id — client metadata ────────────────────────────
+
+  app.patch("/calls/:id", (req: Request, res: Response) => {
+    try {
+      const body = UpdateCallRequestSchema.parse(req.body);
+      const call = ariConn.updateCallMetadata(req.params.id, body);
+      res.json({ call });
+    } catch (err: unknown) {
+      errorResponse(res, err);
+    }
+  });
+
   // ── DELETE /calls/:id — hang up ────────────────────────────────────
 
   app.delete("/calls/:id", async (req: Request, res: Response) => {
@@ -1,11 +1,19 @@
 import ariClient from "ari-client";
+import { EventEmitter } from "node:events";
 import type { Config } from "./config.js";
 import { CallManager } from "./call-manager.js";
-import type { CallRecord, OriginateRequest, BridgeRecord, TransferRequest, AudioCaptureInfo } from "./types.js";
+import type {
+  CallRecord, CallEvent, OriginateRequest, BridgeRecord, TransferRequest, AudioCaptureInfo, AudioFrame,
+  HangupInitiator, CallMetadataUpdate, LegEndPolicy,
+} from "./types.js";
 import { randomUUID } from "node:crypto";
-import { isInboundAllowed } from "./allowlist.js";
+import { checkInbound, getRejectionPolicy, type RejectionPolicy } from "./allowlist.js";
+import { normalizeNumber, extractNumberFromEndpoint } from "./phone-number.js";
+import type { BlockedCallLog } from "./blocked-log.js";
+import { HANGUP_CAUSE_CODES, describeHangupCause, inferHangupInitiator, type HangupCause } from "./hangup-cause.js";
+import { CallAdmission, type AdmissionDecision } from "./capacity.js";
 import { AudioCaptureManager } from "./audio-capture.js";
-import { AudioPlaybackManager } from "./audio-playback.js";
+import { AudioPlaybackManager, type AudioPlayback } from "./audio-playback.js";
 import { AsrManager, type AsrTranscription } from "./asr-client.js";
 import { TtsClient, TtsManager, type TtsSynthesizeOptions } from "./tts-client.js";
 import { parseWav, toMono16bit, slinFormatName, hasExactSlinRate, resample } from "./wav-utils.js";
@@ -50,6 +58,29 @@ function parseAriError(err: any): { message: string; statusCode: number } {
   return { message, statusCode };
 }
 
+/** Prefixes of the snoop/ExternalMedia channels created for audio capture and playback. */
+const INTERNAL_CHANNEL_PREFIXES = ["snoop-", "audiocap-", "ttsplay-"];
+
+/** Channel variable holding a call's identity so it can be adopted after a restart. */
+const CALL_VARIABLE = "OPENCLAW_CALL";
+
+type CallTag = Pick<
+  CallRecord,
+  "id" | "direction" | "callerNumber" | "calleeNumber" | "endpoint" | "metadata" | "clientReference" |
+  "parentCallId" | "onLegEnd"
+>;
+
+function isInternalChannel(channelId: string): boolean {
+  return INTERNAL_CHANNEL_PREFIXES.some((prefix) => channelId.startsWith(prefix));
+}
+
+function callTag(call: CallRecord): string {
+  const { id, direction, callerNumber, calleeNumber, endpoint, metadata, clientReference, parentCallId, onLegEnd } = call;
+  return JSON.stringify({
+    id, direction, callerNumber, calleeNumber, endpoint, metadata, clientReference, parentCallId, onLegEnd,
+  } satisfies CallTag);
+}
+
 export class AriConnection {
   private ari: any = null;
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
@@ -58,12 +89,28 @@ export class AriConnection {
   private audioPlaybackManager?: AudioPlaybackManager;
   private asrManager?: AsrManager;
   private ttsManager?: TtsManager;
+  /** Hangup requests per call channel, consumed when the call is ended */
+  private hangupRequests = new Map<string, { cause?: number; by: HangupInitiator }>();
+  private admission: CallAdmission;
+  /** Raw captured audio, emitted under the call ID (see onAudioFrame) */
+  private audioFrames = new EventEmitter().setMaxListeners(0);
 
   constructor(
     private config: Config,
     private callManager: CallManager,
+    private blockedLog?: BlockedCallLog,
     private log = console
-  ) {}
+  ) {
+    this.admission = new CallAdmission(config.capacity, callManager);
+
+    // Apply the leg-end policy when either leg of a transfer ends
+    callManager.on("event", (event: CallEvent) => {
+      if (event.type !== "call.ended") return;
+      this.handleLegEnded(event.callId).catch((err) => {
+        this.log.error(`[ARI] Failed to apply leg-end policy for call ${event.callId}:`, err);
+      });
+    });
+  }
 
   async connect(): Promise<void> {
     try {
@@ -127,17 +174,21 @@ export class AriConnection {
       );
 
       // Forward playback events to call manager for WebSocket broadcast
+      // (streams for rejected callers are keyed by channel and have no call record)
       this.audioPlaybackManager.on("playback.started", ({ callId }) => {
+        if (!this.callManager.get(callId)) return;
         this.log.info(`[ARI] Streaming playback started for call ${callId}`);
         this.callManager.broadcastEvent(callId, "call.playback_stream_started", {});
       });
 
       this.audioPlaybackManager.on("playback.finished", ({ callId }) => {
+        if (!this.callManager.get(callId)) return;
         this.log.info(`[ARI] Streaming playback finished for call ${callId}`);
         this.callManager.broadcastEvent(callId, "call.playback_stream_finished", {});
       });
 
       this.audioPlaybackManager.on("playback.error", ({ callId, error }) => {
+        if (!this.callManager.get(callId)) return;
         this.log.error(`[ARI] Streaming playback error for call ${callId}:`, error);
         this.callManager.broadcastEvent(callId, "call.playback_stream_error", { error: String(error) });
       });
@@ -148,7 +199,12 @@ export class AriConnection {
         this.callManager.broadcastEvent(callId, "call.audio_capture_started", info);
 
         // Start ASR session when audio capture starts
-        if (this.asrManager) {
+        if (this.asrManager && !this.admission.canStartAsr(this.asrManager.sessionCount())) {
+          this.log.warn(`[ARI] ASR session limit reached — no transcription for call ${callId}`);
+          this.callManager.broadcastEvent(callId, "call.asr_unavailable", {
+            reason: `Maximum of ${this.config.capacity.maxAsrSessions} concurrent ASR sessions reached`,
+          });
+        } else if (this.asrManager) {
           try {
             this.log.info(`[ARI] Starting ASR session for call ${callId}`);
             await this.asrManager.startSession(callId);
@@ -175,7 +231,9 @@ export class AriConnection {
         }
       });
 
-      this.audioCaptureManager.on("capture.frame", (frame) => {
+      this.audioCaptureManager.on("capture.frame", (frame: AudioFrame) => {
+        this.audioFrames.emit(frame.callId, frame);
+
         // Emit audio frames to WebSocket clients (base64-encoded for JSON)
         this.callManager.broadcastEvent(frame.callId, "call.audio_frame", {
           timestamp: frame.timestamp,
@@ -249,6 +307,25 @@ export class AriConnection {
     }
   }
 
+  /** Whether a new call in `direction` is within the capacity limits. */
+  admit(direction: CallRecord["direction"]): AdmissionDecision {
+    return this.admission.admit(direction);
+  }
+
+  /** Current calls and ASR sessions against the capacity limits. */
+  capacityUsage(): Record<string, unknown> {
+    return this.admission.usage(this.asrManager?.sessionCount() ?? 0);
+  }
+
+  /**
+   * Receive the raw PCM frames captured from a call (binary audio streams).
+   * Returns a function that removes the listener.
+   */
+  onAudioFrame(callId: string, listener: (frame: AudioFrame) => void): () => void {
+    this.audioFrames.on(callId, listener);
+    return () => this.audioFrames.off(callId, listener);
+  }
+
   isConnected(): boolean {
     return this.connected;
   }
@@ -279,34 +356,59 @@ export class AriConnection {
       if (this.callManager.getByChannelId(channel.id)) return;
 
       // Skip internal channels (snoop, external media for capture/playback)
-      if (channel.id.startsWith("snoop-") || channel.id.startsWith("audiocap-") || channel.id.startsWith("ttsplay-")) {
+      if (isInternalChannel(channel.id)) {
         this.log.info(`[ARI] Skipping internal channel: ${channel.id}`);
         return;
       }
 
-      // Check inbound allowlist
-      if (!isInboundAllowed(callerNumber)) {
-        this.log.warn(`[ARI] Inbound call from ${callerNumber} blocked by allowlist — hanging up`);
-        channel.hangup().catch((err: any) => {
-          this.log.error(`[ARI] Failed to hangup blocked call: ${err.message}`);
+      // Check inbound denylist/allowlist
+      const decision = checkInbound(callerNumber);
+      if (!decision.allowed) {
+        const policy = getRejectionPolicy(decision.outcome);
+        this.log.warn(`[ARI] Inbound call from ${callerNumber} blocked (${decision.reason}) — ${policy.action}`);
+        this.callManager.broadcastEvent("", "call.inbound_blocked", {
+          channelId: channel.id,
+          callerNumber,
+          calleeNumber: channel.dialplan?.exten || "",
+          outcome: decision.outcome,
+          rule: decision.rule?.pattern,
+          reason: decision.reason,
+          action: policy.action,
+        });
+        this.blockedLog?.record("inbound", decision, { endpoint: channel.name, channelId: channel.id });
+        this.rejectInbound(channel.id, policy, decision.outcome);
+        return;
+      }
+
+      // Admission control: over a capacity limit the caller gets the busy treatment
+      const admission = this.admission.admit("inbound");
+      if (!admission.allowed) {
+        const policy = this.config.capacity.busyTreatment;
+        this.log.warn(`[ARI] Inbound call from ${callerNumber || "unknown"} rejected: ${admission.reason} — ${policy.action}`);
+        this.callManager.broadcastEvent("", "call.over_capacity", {
+          channelId: channel.id,
+          callerNumber,
+          calleeNumber: channel.dialplan?.exten || "",
+          limit: admission.limit,
+          reason: admission.reason,
+          action: policy.action,
         });
+        this.rejectInbound(channel.id, policy, "over-capacity");
         return;
       }
 
       // New inbound call (allowed)
       const callId = randomUUID();
-      const record: CallRecord = {
+      const record = this.callManager.create({
         id: callId,
         channelId: channel.id,
         state: "ringing",
         direction: "inbound",
-        callerNumber,
-        calleeNumber: channel.dialplan?.exten || "",
+        callerNumber: normalizeNumber(callerNumber) || callerNumber,
+        calleeNumber: normalizeNumber(channel.dialplan?.exten) || channel.dialplan?.exten || "",
         createdAt: new Date(),
         recordings: [],
-      };
-
-      this.callManager.create(record);
+      });
 
       // Delay before answering (simulate ringing)
       const ringDelay = this.config.inbound.ringDelayMs;
@@ -317,42 +419,16 @@ export class AriConnection {
         this.log.warn(`[ARI] Failed to send ringing indication for ${callId}: ${err.message}`);
       });
 
+      this.tagChannel(record);
       this.notifyWebhook("call.inbound", record);
 
-      setTimeout(() => {
-        // Check if call still exists (caller might have hung up)
-        const call = this.callManager.get(callId);
-        if (!call || call.state === "ended") {
-          this.log.info(`[ARI] Call ${callId} ended before answer`);
-          return;
-        }
-        
-        channel.answer().then(async () => {
-          this.log.info(`[ARI] Inbound call answered: ${callId}`);
-          this.callManager.updateState(callId, "answered", { answeredAt: new Date() });
-          this.notifyWebhook("call.answered", this.callManager.get(callId)!);
-
-          // Call is ready for conversation
-          this.callManager.updateState(callId, "ready");
-          this.notifyWebhook("call.ready", this.callManager.get(callId)!);
-
-          // Auto-start audio capture + ASR pipeline
-          try {
-            await this.startAudioCapture(callId);
-            this.log.info(`[ARI] Auto-started audio capture for call ${callId}`);
-          } catch (err: any) {
-            this.log.error(`[ARI] Failed to auto-start audio capture for call ${callId}: ${err.message}`);
-          }
-        }).catch((err: any) => {
-          this.log.error(`[ARI] Failed to answer inbound call: ${err.message}`);
-        });
-      }, ringDelay);
+      setTimeout(() => this.answerInbound(callId), ringDelay);
     });
 
     ari.on("StasisEnd", async (event: any, channel: any) => {
       this.log.info(`[ARI] StasisEnd: ${channel.id}`);
       const call = this.callManager.getByChannelId(channel.id);
-      if (call && call.state !== "ended") {
+      if (call && !call.endedAt) {
         // Cancel any in-flight TTS synthesis
         this.ttsManager?.cancel(call.id);
 
@@ -374,9 +450,27 @@ export class AriConnection {
           }
         }
 
-        this.callManager.end(call.id, "normal");
-        this.notifyWebhook("call.ended", call);
+        this.endCall(call);
+      }
+    });
+
+    // Sent before StasisEnd when the far end hangs up (soft = requested via ARI/AMI/CLI or a timer)
+    ari.on("ChannelHangupRequest", (event: any, channel: any) => {
+      const call = this.callManager.getByChannelId(channel.id);
+      if (!call || call.endedAt || this.hangupRequests.has(channel.id)) return;
+
+      this.log.info(`[ARI] ChannelHangupRequest: ${channel.id} (cause ${event.cause ?? "none"}${event.soft ? ", soft" : ""})`);
+      this.hangupRequests.set(channel.id, { cause: event.cause, by: event.soft ? "system" : "caller" });
+    });
+
+    // Ends calls whose channel never entered Stasis (e.g. outbound busy / no answer)
+    ari.on("ChannelDestroyed", (event: any, channel: any) => {
+      const call = this.callManager.getByChannelId(channel.id);
+      if (call && !call.endedAt) {
+        this.log.info(`[ARI] ChannelDestroyed: ${channel.id} (cause ${event.cause} ${event.cause_txt ?? ""})`);
+        this.endCall(call, event);
       }
+      this.hangupRequests.delete(channel.id);
     });
 
     ari.on("ChannelStateChange", (event: any, channel: any) => {
@@ -416,22 +510,312 @@ export class AriConnection {
       const channelId = recording.target_uri?.replace("channel:", "");
       const call = channelId ? this.callManager.getByChannelId(channelId) : undefined;
       if (call) {
+        this.callManager.setActivity(call.id, "recording", false);
         this.callManager.broadcastEvent(call.id, "call.recording_finished", { name: recording.name });
       }
     });
 
+    ari.on("RecordingFailed", (event: any, recording: any) => {
+      this.log.warn(`[ARI] RecordingFailed: ${recording.name} (${recording.cause || "unknown cause"})`);
+      const channelId = recording.target_uri?.replace("channel:", "");
+      const call = channelId ? this.callManager.getByChannelId(channelId) : undefined;
+      if (call) {
+        this.callManager.setActivity(call.id, "recording", false);
+        this.callManager.broadcastEvent(call.id, "call.recording_failed", { name: recording.name, cause: recording.cause });
+      }
+    });
+
     // WebSocket close = disconnected
     ari.on("WebSocketReconnecting", () => {
       this.log.warn("[ARI] WebSocket reconnecting...");
       this.connected = false;
     });
 
+    // Fires on the first connect and on every automatic reconnect
     ari.on("WebSocketConnected", () => {
       this.log.info("[ARI] WebSocket reconnected");
       this.connected = true;
+      this.reconcile().catch((err) => {
+        this.log.error("[ARI] Reconcile failed:", err);
+      });
     });
   }
 
+  /**
+   * Answer a ringing inbound call, mark it ready and start audio capture + ASR.
+   */
+  private async answerInbound(callId: string): Promise<void> {
+    // Check if call still exists (caller might have hung up)
+    const call = this.callManager.get(callId);
+    if (!call || call.endedAt) {
+      this.log.info(`[ARI] Call ${callId} ended before answer`);
+      return;
+    }
+
+    try {
+      await this.ari.channels.answer({ channelId: call.channelId });
+    } catch (err: any) {
+      this.log.error(`[ARI] Failed to answer inbound call: ${err.message}`);
+      return;
+    }
+
+    this.log.info(`[ARI] Inbound call answered: ${callId}`);
+    this.callManager.updateState(callId, "answered", { answeredAt: new Date() });
+    this.notifyWebhook("call.answered", this.callManager.get(callId)!);
+
+    // Call is ready for conversation
+    this.callManager.updateState(callId, "ready");
+    this.notifyWebhook("call.ready", this.callManager.get(callId)!);
+
+    // Auto-start audio capture + ASR pipeline
+    try {
+      await this.startAudioCapture(callId);
+      this.log.info(`[ARI] Auto-started audio capture for call ${callId}`);
+    } catch (err: any) {
+      this.log.error(`[ARI] Failed to auto-start audio capture for call ${callId}: ${err.message}`);
+    }
+  }
+
+  // ── Reconciliation ─────────────────────────────────────────────────
+
+  /**
+   * Bring CallManager in line with Asterisk after a restart or ARI reconnect:
+   * adopt live channels in our Stasis app that have no CallRecord, end calls
+   * whose channel is gone, and tear down capture/playback channels and bridges
+   * (and transfer bridges without a live call) that nobody owns any more.
+   * The outcome is broadcast as a system.reconciled event.
+   */
+  private async reconcile(): Promise<void> {
+    const [channels, bridges]: [any[], any[]] = await Promise.all([
+      this.ari.channels.list(),
+      this.ari.bridges.list(),
+    ]);
+    const liveChannels = new Set(channels.map((c) => c.id));
+    const adopted: string[] = [];
+    const ended: string[] = [];
+    const orphanChannels: string[] = [];
+    const orphanBridges: string[] = [];
+
+    // Calls whose channel went away while we were not listening
+    // (initiating calls have no channel until the originate request completes)
+    for (const call of this.callManager.listActive()) {
+      if (call.state === "initiating" || liveChannels.has(call.channelId)) continue;
+      this.log.warn(`[ARI] Channel ${call.channelId} of call ${call.id} no longer exists — ending call`);
+      this.callManager.end(call.id, { causeText: "channel-gone", by: "system" });
+      this.notifyWebhook("call.ended", call);
+      ended.push(call.id);
+    }
+
+    // Live call channels in our app without a CallRecord
+    for (const channel of channels) {
+      if (isInternalChannel(channel.id) || !this.isInStasisApp(channel)) continue;
+      if (this.callManager.getByChannelId(channel.id)) continue;
+      const record = await this.adoptChannel(channel);
+      adopted.push(record.id);
+    }
+
+    // Capture/playback bridges are owned while their capture/playback is running;
+    // transfer bridges while they hold a live call. Bridges holding our calls are tracked.
+    const ownedInternalChannels = new Set<string>();
+    for (const bridge of bridges) {
+      const name: string = bridge.name || "";
+      const members: string[] = bridge.channels || [];
+      const calls = members
+        .map((channelId) => this.callManager.getByChannelId(channelId))
+        .filter((call): call is CallRecord => !!call && !call.endedAt);
+
+      let owned = true;
+      if (name.startsWith("audiocap-bridge-")) {
+        owned = !!this.audioCaptureManager?.hasCapture(name.slice("audiocap-bridge-".length));
+      } else if (name.startsWith("ttsplay-bridge-")) {
+        owned = !!this.audioPlaybackManager?.hasPlayback(name.slice("ttsplay-bridge-".length));
+      } else if (name.startsWith("transfer-")) {
+        owned = calls.length > 0;
+      }
+
+      if (!owned) {
+        this.log.warn(`[ARI] Destroying orphaned bridge ${bridge.id} (${name})`);
+        await this.ari.bridges.destroy({ bridgeId: bridge.id }).catch((err: any) => {
+          this.log.warn(`[ARI] Failed to destroy orphaned bridge ${bridge.id}: ${err.message}`);
+        });
+        orphanBridges.push(bridge.id);
+        continue;
+      }
+
+      if (name.startsWith("audiocap-bridge-") || name.startsWith("ttsplay-bridge-")) {
+        members.forEach((channelId) => ownedInternalChannels.add(channelId));
+      } else if (calls.length > 0 && !this.callManager.getBridge(bridge.id)) {
+        this.callManager.createBridge({
+          id: bridge.id,
+          name,
+          type: "mixing",
+          channelIds: calls.map((call) => call.channelId),
+          createdAt: bridge.creationtime ? new Date(bridge.creationtime) : new Date(),
+        });
+        for (const call of calls) this.callManager.setBridge(call.id, bridge.id);
+      }
+    }
+
+    for (const channel of channels) {
+      if (!isInternalChannel(channel.id) || ownedInternalChannels.has(channel.id)) continue;
+      this.log.warn(`[ARI] Hanging up orphaned internal channel ${channel.id}`);
+      await this.ari.channels.hangup({ channelId: channel.id }).catch((err: any) => {
+        this.log.warn(`[ARI] Failed to hang up orphaned channel ${channel.id}: ${err.message}`);
+      });
+      orphanChannels.push(channel.id);
+    }
+
+    this.log.info(
+      `[ARI] Reconciled: ${adopted.length} adopted, ${ended.length} ended, ` +
+      `${orphanChannels.length} orphaned channels, ${orphanBridges.length} orphaned bridges`
+    );
+    this.callManager.broadcastEvent("", "system.reconciled", { adopted, ended, orphanChannels, orphanBridges });
+
+    // Resume the inbound flow for adopted calls (old capture channels were torn down above)
+    for (const callId of adopted) {
+      const call = this.callManager.get(callId);
+      if (call?.direction !== "inbound") continue;
+      if (call.state === "ringing") {
+        await this.answerInbound(callId);
+      } else if (call.state === "ready") {
+        await this.startAudioCapture(callId).catch((err: any) => {
+          this.log.error(`[ARI] Failed to restart audio capture for adopted call ${callId}: ${err.message}`);
+        });
+      }
+    }
+  }
+
+  /** True for channels currently executing Stasis(<our app>) that are not dialed legs. */
+  private isInStasisApp(channel: any): boolean {
+    if (channel.dialplan?.app_name !== "Stasis") return false;
+    const [app, ...args] = String(channel.dialplan.app_data ?? "").split(",");
+    return app === this.config.ari.app && !args.includes("dialed");
+  }
+
+  /**
+   * Create a CallRecord for a live channel. The call keeps its ID and numbers
+   * when the channel carries our call variable; otherwise it is treated as inbound.
+   */
+  private async adoptChannel(channel: any): Promise<CallRecord> {
+    let tag: Partial<CallTag> = {};
+    try {
+      const { value } = await this.ari.channels.getChannelVar({ channelId: channel.id, variable: CALL_VARIABLE });
+      if (value) tag = JSON.parse(value);
+    } catch {
+      // Variable not set (channel predates tagging or was not created by us)
+    }
+
+    const state = channel.state === "Up" ? "ready" : channel.state === "Ring" || channel.state === "Ringing" ? "ringing" : "initiating";
+    const adoptedAt = new Date();
+    const createdAt = channel.creationtime ? new Date(channel.creationtime) : adoptedAt;
+    const record = this.callManager.create({
+      id: tag.id || randomUUID(),
+      channelId: channel.id,
+      state,
+      direction: tag.direction ?? "inbound",
+      callerNumber: tag.callerNumber ?? (normalizeNumber(channel.caller?.number) || channel.caller?.number || ""),
+      calleeNumber: tag.calleeNumber ?? (normalizeNumber(channel.dialplan?.exten) || channel.dialplan?.exten || ""),
+      endpoint: tag.endpoint,
+      createdAt,
+      // The answer time is not known; channel creation counts ring time as talk time, which errs on the
+      // safe side for the daily minute quota and CDRs
+      answeredAt: state === "ready" ? createdAt : undefined,
+      adoptedAt,
+      recordings: [],
+      metadata: tag.metadata,
+      clientReference: tag.clientReference,
+    });
+    if (!tag.id) this.tagChannel(record);
+    if (tag.parentCallId) this.callManager.linkLeg(tag.parentCallId, record.id, tag.onLegEnd ?? this.config.transfer.legEndPolicy);
+
+    this.log.info(`[ARI] Adopted channel ${channel.id} as ${record.direction} call ${record.id} (${state})`);
+    this.notifyWebhook("call.adopted", record);
+    return record;
+  }
+
+  /** Store the call's identity on its channel so it survives a restart of this service. */
+  private tagChannel(call: CallRecord): void {
+    this.ari.channels
+      .setChannelVar({ channelId: call.channelId, variable: CALL_VARIABLE, value: callTag(call) })
+      .catch((err: any) => {
+        this.log.warn(`[ARI] Failed to tag channel ${call.channelId} for call ${call.id}: ${err.message}`);
+      });
+  }
+
+  /**
+   * Apply the rejection policy to a blocked or over-capacity inbound channel. Any
+   * failure along the way still ends in a hangup so the caller is never left in Stasis.
+   */
+  private async rejectInbound(channelId: string, policy: RejectionPolicy, reason: string): Promise<void> {
+    const cause = policy.action === "continue" ? undefined : policy.cause;
+
+    try {
+      switch (policy.action) {
+        case "continue":
+          await this.ari.channels.continueInDialplan({
+            channelId,
+            context: policy.context,
+            extension: policy.extension,
+            priority: policy.priority,
+          });
+          this.log.info(`[ARI] Blocked call ${channelId} sent to dialplan context '${policy.context}'`);
+          return;
+
+        case "play":
+          await this.ari.channels.answer({ channelId });
+          for (const media of Array.isArray(policy.media) ? policy.media : [policy.media]) {
+            await this.playOnChannel(channelId, media);
+          }
+          break;
+
+        case "speak": {
+          if (!this.ttsManager) {
+            this.log.warn("[ARI] Rejection message needs TTS but TTS_URL is not configured — hanging up");
+            break;
+          }
+          await this.ari.channels.answer({ channelId });
+          const key = `rejected-${channelId}`;
+          const result = await this.ttsManager.synthesize(key, {
+            text: policy.text,
+            voice: policy.voice,
+            language: policy.language,
+          });
+          await this.streamWav(key, channelId, result.audio);
+          break;
+        }
+      }
+    } catch (err: any) {
+      this.log.error(`[ARI] Rejection ${policy.action} failed for call ${channelId} (${reason}): ${err.message}`);
+    }
+
+    try {
+      await this.ari.channels.hangup({ channelId, reason: cause || "normal" });
+    } catch {
+      // Caller may already have hung up
+    }
+  }
+
+  /**
+   * Play a media URI on a channel that has no call record and wait until it finishes.
+   */
+  private async playOnChannel(channelId: string, media: string): Promise<void> {
+    const playback = this.ari.Playback();
+    const finished = new Promise<void>((resolve, reject) => {
+      const safetyTimeout = setTimeout(() => reject(new Error("Playback timed out (30s safety limit)")), 30_000);
+      playback.once("PlaybackFinished", () => {
+        clearTimeout(safetyTimeout);
+        resolve();
+      });
+      playback.once("PlaybackFailed", (event: any) => {
+        clearTimeout(safetyTimeout);
+        reject(new Error(`Playback failed: ${event.reason}`));
+      });
+    });
+
+    await this.ari.channels.play({ channelId, media }, playback);
+    await finished;
+  }
+
   /**
    * List available SIP/PJSIP endpoints from Asterisk.
    */
@@ -476,8 +860,9 @@ export class AriConnection {
 
   /**
    * Originate an outbound call. The channel enters Stasis when answered.
+   * `onCreated` runs as soon as the call record exists (before dialing).
    */
-  async originate(request: OriginateRequest): Promise<CallRecord> {
+  async originate(request: OriginateRequest, onCreated?: (call: CallRecord) => void): Promise<CallRecord> {
     this.requireConnection();
 
     // Optionally verify endpoint availability before dialing
@@ -489,21 +874,29 @@ export class AriConnection {
       );
     }
 
+    // Checked right before the record is created so concurrent originates cannot both slip through
+    const admission = this.admission.admit("outbound");
+    if (!admission.allowed) {
+      throw new AriError(`Call capacity reached: ${admission.reason}`, 503);
+    }
+
     const callId = randomUUID();
     const channel = this.ari.Channel();
 
-    const record: CallRecord = {
+    const record = this.callManager.create({
       id: callId,
       channelId: channel.id,
       state: "initiating",
       direction: "outbound",
-      callerNumber: request.callerId || this.config.ari.app,
-      calleeNumber: request.endpoint,
+      callerNumber: request.callerId ? normalizeNumber(request.callerId) || request.callerId : this.config.ari.app,
+      calleeNumber: extractNumberFromEndpoint(request.endpoint) || request.endpoint,
+      endpoint: request.endpoint,
       createdAt: new Date(),
       recordings: [],
-    };
-
-    this.callManager.create(record);
+      metadata: request.metadata,
+      clientReference: request.clientReference,
+    });
+    onCreated?.(record);
 
     channel.on("ChannelStateChange", (event: any, ch: any) => {
       if (ch.state === "Ringing") {
@@ -514,14 +907,6 @@ export class AriConnection {
       }
     });
 
-    channel.on("ChannelDestroyed", () => {
-      const call = this.callManager.get(callId);
-      if (call && call.state !== "ended") {
-        this.callManager.end(callId, "hangup");
-        this.notifyWebhook("call.ended", call);
-      }
-    });
-
     channel.on("StasisStart", async (event: any, ch: any) => {
       this.log.info(`[ARI] Outbound StasisStart: ${ch.id} for call ${callId}`);
       // Channel is now in our app, ready for media operations
@@ -535,7 +920,10 @@ export class AriConnection {
         app: this.config.ari.app,
         callerId: request.callerId,
         timeout: request.timeout || 30,
-        variables: request.variables ? { "CHANNEL(variables)": request.variables } : undefined,
+        variables: {
+          [CALL_VARIABLE]: callTag(record),
+          ...(request.variables ? { "CHANNEL(variables)": request.variables } : {}),
+        },
       });
 
       this.callManager.updateState(callId, "ringing");
@@ -543,7 +931,7 @@ export class AriConnection {
     } catch (err: any) {
       this.callManager.updateState(callId, "failed");
       const parsed = parseAriError(err);
-      this.callManager.end(callId, parsed.message);
+      this.callManager.end(callId, { causeText: parsed.message, by: "system" });
       throw new AriError(`Originate failed: ${parsed.message}`, parsed.statusCode);
     }
   }
@@ -567,6 +955,14 @@ export class AriConnection {
     if (!call) throw new AriError(`Call ${callId} not found`, 404);
     this.requireConnection();
 
+    await this.streamWav(callId, call.channelId, audioBuffer);
+    return `streamed-${Date.now()}`;
+  }
+
+  /**
+   * Stream a WAV buffer into a channel in real time, keyed by `playbackKey`.
+   */
+  private async streamWav(playbackKey: string, channelId: string, audioBuffer: Buffer): Promise<void> {
     if (!this.audioPlaybackManager) {
       throw new AriError("Audio playback manager not initialized", 500);
     }
@@ -587,13 +983,13 @@ export class AriConnection {
 
     const format = slinFormatName(sampleRate);
     this.log.info(
-      `[ARI] Streaming audio for call ${callId}: ${pcmData.length} bytes, ` +
+      `[ARI] Streaming audio for ${playbackKey}: ${pcmData.length} bytes, ` +
       `${sampleRate}Hz, format=${format}, duration=${pcm.durationSeconds.toFixed(1)}s`
     );
 
     // Start playback session (creates ExternalMedia + bridge)
     const playback = await this.audioPlaybackManager.startPlayback(
-      callId, call.channelId, { format, sampleRate }
+      playbackKey, channelId, { format, sampleRate }
     );
 
     try {
@@ -601,10 +997,31 @@ export class AriConnection {
       await playback.streamAudio(pcmData, sampleRate);
     } finally {
       // Always tear down the playback infrastructure
-      await this.audioPlaybackManager.stopPlayback(callId);
+      await this.audioPlaybackManager.stopPlayback(playbackKey);
     }
+  }
 
-    return `streamed-${Date.now()}`;
+  /**
+   * Open a live streaming playback on a call for PCM that arrives in pieces
+   * (/calls/:id/audio/in). Like speak() and file playback it replaces any
+   * streaming playback already running on the call.
+   */
+  async startLiveAudio(callId: string, sampleRate: number): Promise<AudioPlayback> {
+    const call = this.callManager.get(callId);
+    if (!call) throw new AriError(`Call ${callId} not found`, 404);
+    this.requireConnection();
+    if (!this.audioPlaybackManager) {
+      throw new AriError("Audio playback manager not initialized", 500);
+    }
+    if (!hasExactSlinRate(sampleRate)) {
+      throw new AriError(`Unsupported sample rate ${sampleRate}`, 400);
+    }
+
+    const format = slinFormatName(sampleRate);
+    this.log.info(`[ARI] Starting live audio for call ${callId}: ${sampleRate}Hz, format=${format}`);
+    const playback = await this.audioPlaybackManager.startPlayback(callId, call.channelId, { format, sampleRate });
+    playback.startLive(sampleRate);
+    return playback;
   }
 
   /**
@@ -622,8 +1039,7 @@ export class AriConnection {
       throw new AriError("TTS not configured — set TTS_URL environment variable", 501);
     }
 
-    const previousState = call.state;
-    this.callManager.updateState(callId, "speaking");
+    this.callManager.setActivity(callId, "speaking", true);
     this.callManager.broadcastEvent(callId, "call.speak_started", {
       text: options.text,
       voice: options.voice || this.config.tts.defaultVoice,
@@ -671,11 +1087,7 @@ export class AriConnection {
       const parsed = parseAriError(err);
       throw new AriError(`Speak failed: ${parsed.message}`, 502);
     } finally {
-      // Restore previous state if still speaking
-      const current = this.callManager.get(callId);
-      if (current?.state === "speaking") {
-        this.callManager.updateState(callId, previousState === "speaking" ? "answered" : previousState);
-      }
+      this.callManager.setActivity(callId, "speaking", false);
     }
   }
 
@@ -687,14 +1099,13 @@ export class AriConnection {
     if (!call) throw new AriError(`Call ${callId} not found`, 404);
     this.requireConnection();
 
-    const previousState = call.state;
-    this.callManager.updateState(callId, "playing");
+    this.callManager.setActivity(callId, "playing", true);
 
     const playback = this.ari.Playback();
     try {
       await this.ari.channels.play({ channelId: call.channelId, media }, playback);
     } catch (err: any) {
-      this.callManager.updateState(callId, previousState === "playing" ? "answered" : previousState);
+      this.callManager.setActivity(callId, "playing", false);
       const parsed = parseAriError(err);
       throw new AriError(`Play failed: ${parsed.message}`, parsed.statusCode);
     }
@@ -719,10 +1130,7 @@ export class AriConnection {
         cleanupFn = cleanup;
 
         const restoreState = () => {
-          const current = this.callManager.get(callId);
-          if (current?.state === "playing") {
-            this.callManager.updateState(callId, previousState === "playing" ? "answered" : previousState);
-          }
+          this.callManager.setActivity(callId, "playing", false);
         };
 
         const onFinished = () => {
@@ -793,7 +1201,7 @@ export class AriConnection {
     }
 
     this.callManager.addRecording(callId, recordingName);
-    this.callManager.updateState(callId, "recording");
+    this.callManager.setActivity(callId, "recording", true);
 
     return recordingName;
   }
@@ -882,17 +1290,50 @@ export class AriConnection {
   /**
    * Hang up a call.
    */
-  async hangup(callId: string, reason?: string): Promise<void> {
+  async hangup(callId: string, reason: HangupCause = "normal"): Promise<void> {
     const call = this.callManager.get(callId);
     if (!call) throw new AriError(`Call ${callId} not found`, 404);
     this.requireConnection();
 
+    // Registered first so the ChannelHangupRequest for our own request is not taken for the caller
+    this.hangupRequests.set(call.channelId, { cause: HANGUP_CAUSE_CODES[reason], by: "api" });
     try {
-      await this.ari.channels.hangup({ channelId: call.channelId, reason: reason || "normal" });
+      await this.ari.channels.hangup({ channelId: call.channelId, reason });
     } catch {
       // Channel may already be gone
     }
-    this.callManager.end(callId, reason || "normal");
+    this.endCall(call);
+  }
+
+  /**
+   * End a call with the cause of its hangup request, falling back to the
+   * cause from ChannelDestroyed, and notify the webhook.
+   */
+  private endCall(call: CallRecord, destroyed?: { cause?: number; cause_txt?: string }): void {
+    const request = this.hangupRequests.get(call.channelId);
+    this.hangupRequests.delete(call.channelId);
+
+    const cause = request?.cause || destroyed?.cause || undefined;
+    this.callManager.end(call.id, {
+      cause,
+      causeText: (destroyed?.cause === cause && destroyed?.cause_txt) || describeHangupCause(cause),
+      by: request?.by ?? inferHangupInitiator(cause),
+    });
+    this.notifyWebhook("call.ended", call);
+  }
+
+  /**
+   * Update client metadata / clientReference of a live call. The channel is
+   * re-tagged so the values survive a restart of this service.
+   */
+  updateCallMetadata(callId: string, update: CallMetadataUpdate): CallRecord {
+    const call = this.callManager.get(callId);
+    if (!call) throw new AriError(`Call ${callId} not found`, 404);
+    if (call.endedAt) throw new AriError(`Call ${callId} has already ended`, 409);
+
+    this.callManager.updateMetadata(callId, update);
+    if (this.ari && this.connected) this.tagChannel(call);
+    return call;
   }
 
   /**
@@ -1039,11 +1480,21 @@ export class AriConnection {
    * Transfer a call by creating a bridge, originating a new call to the target,
    * and connecting both channels in the bridge.
    */
-  async transferCall(callId: string, request: TransferRequest): Promise<{ bridgeId: string; newCallId: string }> {
+  async transferCall(
+    callId: string,
+    request: TransferRequest,
+    onCreated?: (call: CallRecord) => void
+  ): Promise<{ bridgeId: string; newCallId: string }> {
     const call = this.callManager.get(callId);
     if (!call) throw new AriError(`Call ${callId} not found`, 404);
     this.requireConnection();
 
+    // The transfer target is a new outbound call; refuse before building the bridge
+    const admission = this.admission.admit("outbound");
+    if (!admission.allowed) {
+      throw new AriError(`Call capacity reached: ${admission.reason}`, 503);
+    }
+
     // Create a mixing bridge
     const bridge = await this.createBridge(`transfer-${callId}`);
 
@@ -1051,11 +1502,16 @@ export class AriConnection {
     await this.addChannelToBridge(bridge.id, callId);
 
     // Originate the new call to the transfer target
+    // The new leg carries the client data of the call being transferred
     const newCall = await this.originate({
       endpoint: request.endpoint,
       callerId: request.callerId || call.callerNumber,
       timeout: request.timeout || 30,
-    });
+      metadata: call.metadata,
+      clientReference: call.clientReference,
+    }, onCreated);
+    this.callManager.linkLeg(callId, newCall.id, request.onLegEnd ?? this.config.transfer.legEndPolicy);
+    this.tagChannel(newCall);
 
     // When the new call answers, add it to the bridge
     // We set up a listener on the call manager for when it transitions to "answered"
@@ -1098,6 +1554,53 @@ export class AriConnection {
     }
   }
 
+  /**
+   * One leg of a transfer ended: destroy the bridge it shared with the other
+   * leg and apply the transfer's leg-end policy to the other leg. Legs that
+   * never joined the bridge (e.g. the target did not answer) are ignored.
+   */
+  private async handleLegEnded(callId: string): Promise<void> {
+    const ended = this.callManager.get(callId);
+    if (!ended) return;
+
+    const pairs: { other: CallRecord; policy: LegEndPolicy }[] = [];
+    const parent = ended.parentCallId ? this.callManager.get(ended.parentCallId) : undefined;
+    if (parent && ended.onLegEnd) pairs.push({ other: parent, policy: ended.onLegEnd });
+    for (const legId of ended.legs) {
+      const leg = this.callManager.get(legId);
+      if (leg?.onLegEnd) pairs.push({ other: leg, policy: leg.onLegEnd });
+    }
+
+    for (const { other, policy } of pairs) {
+      const bridgeId = [...other.bridgeIds].reverse().find((id) => ended.bridgeIds.includes(id));
+      if (!bridgeId || other.endedAt) continue;
+
+      this.log.info(`[ARI] Leg ${callId} ended — applying ${policy} to call ${other.id}`);
+      if (this.callManager.getBridge(bridgeId)) {
+        await this.destroyBridge(bridgeId).catch((err: any) => {
+          this.log.warn(`[ARI] Failed to destroy transfer bridge ${bridgeId}: ${err.message}`);
+        });
+      }
+      this.callManager.broadcastEvent(other.id, "call.leg_ended", { legCallId: callId, policy });
+
+      if (policy === "hangup-both") {
+        this.hangupRequests.set(other.channelId, { cause: HANGUP_CAUSE_CODES.normal, by: "system" });
+        await this.ari.channels.hangup({ channelId: other.channelId }).catch(() => {
+          // Channel may already be gone
+        });
+        this.endCall(other);
+      } else if (policy === "return-to-agent") {
+        this.callManager.broadcastEvent(other.id, "call.returned_to_agent", { legCallId: callId });
+        this.notifyWebhook("call.returned_to_agent", { ...other, legCallId: callId });
+        if (!this.audioCaptureManager?.hasCapture(other.id)) {
+          await this.startAudioCapture(other.id).catch((err: any) => {
+            this.log.error(`[ARI] Failed to restart audio capture for call ${other.id}: ${err.message}`);
+          });
+        }
+      }
+    }
+  }
+
   // ── Audio Capture ──────────────────────────────────────────────────
 
   /**
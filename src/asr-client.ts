@@ -246,14 +246,7 @@ export class AsrClient extends EventEmitter {
           const msg = JSON.parse(data.toString());
           if (msg.is_final === true) {
             this.log.info(`[AsrClient] Final flush response received for call ${this.callId}`);
-            // Still emit the transcription so it's captured
-            if (msg.text !== undefined) {
-              this.emit("transcription", {
-                text: msg.text,
-                is_partial: false,
-                is_final: true,
-              });
-            }
+            // The connection's message handler emits the transcription itself
             cleanup();
             resolve();
           }
@@ -411,6 +404,13 @@ export class AsrManager extends EventEmitter {
     this.clients.delete(callId);
   }
 
+  /**
+   * Number of open ASR sessions.
+   */
+  sessionCount(): number {
+    return this.clients.size;
+  }
+
   /**
    * Get ASR client for a call.
    */
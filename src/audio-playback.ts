@@ -27,6 +27,17 @@ const WS_BACKPRESSURE_LOW = 32 * 1024;
 /** Max wait time for WebSocket buffer to drain after last chunk. */
 const WS_DRAIN_TIMEOUT_MS = 500;
 
+/** Audio sent per tick when streaming. */
+const CHUNK_MS = 20;
+
+/** Most audio a live stream may have queued ahead of playback. */
+const LIVE_MAX_QUEUED_SECONDS = 120;
+
+/** LIVE_MAX_QUEUED_SECONDS of 16-bit mono PCM at `sampleRate`, in bytes. */
+export function maxLiveQueueBytes(sampleRate: number): number {
+  return sampleRate * 2 * LIVE_MAX_QUEUED_SECONDS;
+}
+
 /**
  * Wrap a promise with a timeout. Rejects with an Error if the timeout fires first.
  */
@@ -49,6 +60,11 @@ export interface AudioPlaybackOptions {
 
 /**
  * AudioPlayback manages a single streaming playback session on one call.
+ *
+ * Audio is either streamed from a complete buffer (streamAudio) or, in live
+ * mode (startLive), queued as it arrives (enqueue) and sent at real-time pace.
+ * Live mode emits "underrun" when the queue runs dry and "mark" when audio
+ * up to a mark() position has been sent.
  */
 export class AudioPlayback extends EventEmitter {
   private externalMediaChannelId?: string;
@@ -59,6 +75,21 @@ export class AudioPlayback extends EventEmitter {
   private streamTimer?: ReturnType<typeof setTimeout>;
   private cancelled = false;
 
+  // Live mode
+  private liveChunkBytes = 0;
+  private liveMaxBytes = 0;
+  /** Queued PCM as received; only the front of it is joined when a chunk is sent */
+  private liveQueue: Buffer[] = [];
+  private liveQueuedBytes = 0;
+  /** Bytes enqueued / sent since startLive() */
+  private liveEnqueued = 0;
+  private liveSent = 0;
+  private liveMarks: { name: string; position: number }[] = [];
+  private liveTimer?: ReturnType<typeof setTimeout>;
+  private liveClockStart = 0;
+  private liveChunksSinceStart = 0;
+  private underrun = true;
+
   constructor(
     private callId: string,
     private channelId: string,
@@ -232,6 +263,125 @@ export class AudioPlayback extends EventEmitter {
     });
   }
 
+  /**
+   * Switch a started playback to live mode: PCM (16-bit mono at `sampleRate`)
+   * passed to enqueue() is sent as it arrives.
+   */
+  startLive(sampleRate: number): void {
+    if (!this.active) throw new Error("Playback not started");
+    this.liveChunkBytes = Math.floor((sampleRate * 2 * CHUNK_MS) / 1000);
+    this.liveMaxBytes = maxLiveQueueBytes(sampleRate);
+    this.streaming = true;
+  }
+
+  /**
+   * Queue live PCM. Returns false (and drops the chunk) when more than
+   * LIVE_MAX_QUEUED_SECONDS would be queued.
+   */
+  enqueue(pcm: Buffer): boolean {
+    if (!this.active || this.liveChunkBytes === 0) return false;
+    if (this.liveQueuedBytes + pcm.length > this.liveMaxBytes) return false;
+
+    if (pcm.length > 0) this.liveQueue.push(pcm);
+    this.liveQueuedBytes += pcm.length;
+    this.liveEnqueued += pcm.length;
+
+    // After an underrun the clock restarts, so the new audio is not sent in a burst to catch up
+    if (!this.liveTimer) {
+      this.underrun = false;
+      this.liveClockStart = Date.now();
+      this.liveChunksSinceStart = 0;
+      this.sendLiveChunk();
+    }
+    return true;
+  }
+
+  /**
+   * Emit "mark" with `name` once everything enqueued so far has been sent
+   * (right away when nothing is queued).
+   */
+  mark(name: string): void {
+    // A trailing half sample is not waited for
+    const position = this.liveEnqueued - (this.liveEnqueued % 2);
+    if (this.liveSent >= position) {
+      this.emit("mark", { callId: this.callId, name, cleared: false });
+    } else {
+      this.liveMarks.push({ name, position });
+    }
+  }
+
+  /**
+   * Drop queued live audio. Pending marks are emitted with cleared: true.
+   * Returns the number of bytes dropped.
+   */
+  clear(): number {
+    const dropped = this.liveQueuedBytes;
+    this.liveQueue = [];
+    this.liveQueuedBytes = 0;
+    this.liveEnqueued = this.liveSent;
+    for (const { name } of this.liveMarks.splice(0)) {
+      this.emit("mark", { callId: this.callId, name, cleared: true });
+    }
+    return dropped;
+  }
+
+  /** Send the next 20ms of queued live audio and schedule the one after it. */
+  private sendLiveChunk(): void {
+    this.liveTimer = undefined;
+    if (this.cancelled || !this.audioWs || this.audioWs.readyState !== WebSocket.OPEN) return;
+
+    // Whole samples only; an odd trailing byte waits for the rest of its sample
+    let size = Math.min(this.liveChunkBytes, this.liveQueuedBytes);
+    size -= size % 2;
+    if (size === 0) {
+      if (!this.underrun) {
+        this.underrun = true;
+        this.emit("underrun", { callId: this.callId });
+      }
+      return;
+    }
+
+    const chunk = this.takeLive(size);
+    try {
+      this.audioWs.send(chunk);
+    } catch (err) {
+      this.emit("error", { callId: this.callId, error: err });
+      return;
+    }
+    this.liveSent += size;
+    while (this.liveMarks.length > 0 && this.liveMarks[0].position <= this.liveSent) {
+      this.emit("mark", { callId: this.callId, name: this.liveMarks.shift()!.name, cleared: false });
+    }
+
+    this.liveChunksSinceStart++;
+    const next = () => this.sendLiveChunk();
+    if (this.audioWs.bufferedAmount > WS_BACKPRESSURE_HIGH) {
+      // Keep the timer slot taken so enqueue() doesn't restart the clock meanwhile
+      this.liveTimer = setTimeout(() => {
+        this.waitForBackpressure().then(next, next);
+      }, 0);
+      return;
+    }
+    const delay = Math.max(0, this.liveClockStart + this.liveChunksSinceStart * CHUNK_MS - Date.now());
+    this.liveTimer = setTimeout(next, delay);
+  }
+
+  /** Remove the first `size` bytes from the live queue, joining only the buffers they span. */
+  private takeLive(size: number): Buffer {
+    const parts: Buffer[] = [];
+    let taken = 0;
+    while (taken < size) {
+      const head = this.liveQueue[0];
+      const part = head.subarray(0, size - taken);
+      parts.push(part);
+      taken += part.length;
+      if (part.length === head.length) this.liveQueue.shift();
+      else this.liveQueue[0] = head.subarray(part.length);
+    }
+    this.liveQueuedBytes -= size;
+    return parts.length === 1 ? parts[0] : Buffer.concat(parts, size);
+  }
+
   /**
    * Wait until WebSocket bufferedAmount drops below low-water mark.
    */
@@ -286,6 +436,10 @@ export class AudioPlayback extends EventEmitter {
       clearTimeout(this.streamTimer);
       this.streamTimer = undefined;
     }
+    if (this.liveTimer) {
+      clearTimeout(this.liveTimer);
+      this.liveTimer = undefined;
+    }
 
     await this.cleanup();
     this.active = false;
@@ -0,0 +1,254 @@
+/**
+ * Audio WebSockets
+ *
+ * /calls/:id/audio streams the raw PCM captured from a call as binary
+ * messages, without the base64/JSON overhead of call.audio_frame events on
+ * /events. Each stream starts with a JSON text message describing the audio:
+ *
+ *   { "type": "start", "callId": "...", "format": "slin16", "encoding": "s16le", "sampleRate": 16000, "channels": 1 }
+ *
+ * followed by one binary message per captured frame. The header is sent again
+ * if the format changes (e.g. capture restarted), and { "type": "end" } is sent
+ * before the socket closes when the call ends.
+ *
+ * /calls/:id/audio/in?sampleRate=<hz> is the reverse direction: binary PCM
+ * from the client is queued and played into the call in real time through an
+ * ExternalMedia playback (AudioPlayback live mode). Text messages
+ * { "type": "clear" } and { "type": "mark", "name": "..." } drop queued audio
+ * and ask to be told when audio up to that point has played.
+ */
+
+import { WebSocketServer, WebSocket } from "ws";
+import type { IncomingMessage } from "node:http";
+import { z } from "zod";
+import type { CallManager } from "./call-manager.js";
+import type { AriConnection } from "./ari-connection.js";
+import { maxLiveQueueBytes, type AudioPlayback } from "./audio-playback.js";
+import type { AudioFrame, CallEvent } from "./types.js";
+import { hasExactSlinRate, slinFormatName } from "./wav-utils.js";
+import { selectProtocol } from "./ws-auth.js";
+
+/** /calls/<id>/audio */
+export const AUDIO_STREAM_PATH = /^\/calls\/([^/]+)\/audio$/;
+
+/** /calls/<id>/audio/in */
+export const AUDIO_INJECT_PATH = /^\/calls\/([^/]+)\/audio\/in$/;
+
+const AudioInCommandSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("clear") }),
+  z.object({ type: z.literal("mark"), name: z.string().min(1).max(200) }),
+]);
+
+/** Frames are dropped while this much is still unsent to a slow client (~30s of 16 kHz audio) */
+const MAX_BUFFERED_BYTES = 1024 * 1024;
+
+/** Call ID in an upgrade request for `path` (AUDIO_STREAM_PATH or AUDIO_INJECT_PATH). */
+function callIdFromPath(req: IncomingMessage, path: RegExp): string | undefined {
+  const match = path.exec(new URL(req.url ?? "/", "http://localhost").pathname);
+  return match?.[1];
+}
+
+/** The declared ?sampleRate= of an injection socket (NaN when missing or invalid). */
+function declaredSampleRate(req: IncomingMessage): number {
+  const rate = new URL(req.url ?? "/", "http://localhost").searchParams.get("sampleRate");
+  return rate && /^\d+$/.test(rate) ? Number(rate) : NaN;
+}
+
+/**
+ * WebSocket server (noServer mode, upgrades are routed and authenticated in
+ * ws-server.ts) for /calls/:id/audio. The upgrade is only accepted for active calls.
+ */
+export function createAudioStreamServer(
+  callManager: CallManager,
+  ariConn: AriConnection,
+  apiKey?: string
+): WebSocketServer {
+  const wss = new WebSocketServer({
+    noServer: true,
+    handleProtocols: selectProtocol(apiKey),
+    verifyClient: (info, done) => {
+      const call = callManager.get(callIdFromPath(info.req, AUDIO_STREAM_PATH) ?? "");
+      if (!call || call.endedAt) return done(false, 404, "Call not found");
+      done(true);
+    },
+  });
+
+  wss.on("connection", (ws, req: IncomingMessage) => {
+    const callId = callIdFromPath(req, AUDIO_STREAM_PATH)!;
+    console.log(`[WS] Audio stream client connected for call ${callId}`);
+
+    let header: string | undefined;
+    let dropped = 0;
+
+    const sendHeader = (format: string, sampleRate: number, channels: number) => {
+      const next = JSON.stringify({ type: "start", callId, format, encoding: "s16le", sampleRate, channels });
+      if (next === header) return;
+      header = next;
+      ws.send(header);
+    };
+
+    // Describe the audio right away when capture is already running
+    const capture = callManager.get(callId)?.audioCapture;
+    if (capture) sendHeader(capture.format, capture.sampleRate, 1);
+
+    const removeFrameListener = ariConn.onAudioFrame(callId, (frame: AudioFrame) => {
+      if (ws.readyState !== WebSocket.OPEN) return;
+      if (ws.bufferedAmount > MAX_BUFFERED_BYTES) {
+        if (dropped++ === 0) console.warn(`[WS] Audio stream client for call ${callId} is too slow, dropping frames`);
+        return;
+      }
+      sendHeader(frame.format, frame.sampleRate, frame.channels);
+      ws.send(frame.data, { binary: true });
+    });
+
+    const onCallEvent = (event: CallEvent) => {
+      if (event.callId !== callId || event.type !== "call.ended") return;
+      ws.send(JSON.stringify({ type: "end", callId, dropped }));
+      ws.close(1000, "Call ended");
+    };
+    callManager.on("event", onCallEvent);
+
+    ws.on("close", () => {
+      removeFrameListener();
+      callManager.off("event", onCallEvent);
+      console.log(`[WS] Audio stream client disconnected for call ${callId}` + (dropped ? ` (${dropped} frames dropped)` : ""));
+    });
+  });
+
+  return wss;
+}
+
+/**
+ * WebSocket server (noServer mode) for /calls/:id/audio/in. The upgrade is
+ * only accepted for active calls and a sample rate Asterisk has a slin format
+ * for. Audio and marks sent before the playback is set up are kept and
+ * applied once it is.
+ */
+export function createAudioInjectServer(
+  callManager: CallManager,
+  ariConn: AriConnection,
+  apiKey?: string
+): WebSocketServer {
+  const wss = new WebSocketServer({
+    noServer: true,
+    handleProtocols: selectProtocol(apiKey),
+    verifyClient: (info, done) => {
+      const call = callManager.get(callIdFromPath(info.req, AUDIO_INJECT_PATH) ?? "");
+      if (!call || call.endedAt) return done(false, 404, "Call not found");
+      if (!hasExactSlinRate(declaredSampleRate(info.req))) {
+        return done(false, 400, "sampleRate must be one of the Asterisk slin rates (8000, 16000, 24000, 48000, ...)");
+      }
+      done(true);
+    },
+  });
+
+  wss.on("connection", (ws, req: IncomingMessage) => {
+    const callId = callIdFromPath(req, AUDIO_INJECT_PATH)!;
+    const sampleRate = declaredSampleRate(req);
+    console.log(`[WS] Audio injection client connected for call ${callId} (${sampleRate}Hz)`);
+
+    const send = (message: Record<string, unknown>) => {
+      if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify({ ...message, callId }));
+    };
+    const end = (reason: string) => {
+      send({ type: "end", reason });
+      ws.close(1000, reason);
+    };
+
+    let playback: AudioPlayback | undefined;
+    let closed = false;
+    /** Audio and marks received while the playback is being set up, capped like the live queue */
+    let pending: (Buffer | { mark: string })[] = [];
+    let pendingBytes = 0;
+    const maxPendingBytes = maxLiveQueueBytes(sampleRate);
+
+    const queueFull = () => send({ type: "error", error: "Queue full, audio chunk dropped" });
+    const enqueue = (pcm: Buffer) => {
+      if (!playback!.enqueue(pcm)) queueFull();
+    };
+
+    ws.on("message", (data, isBinary) => {
+      if (isBinary) {
+        const pcm = data as Buffer;
+        if (playback) {
+          enqueue(pcm);
+        } else if (pendingBytes + pcm.length > maxPendingBytes) {
+          queueFull();
+        } else {
+          pending.push(pcm);
+          pendingBytes += pcm.length;
+        }
+        return;
+      }
+
+      let command: z.infer<typeof AudioInCommandSchema>;
+      try {
+        command = AudioInCommandSchema.parse(JSON.parse(data.toString()));
+      } catch (err) {
+        const details = err instanceof z.ZodError
+          ? err.errors.map((e) => `${e.path.join(".")}: ${e.message}`)
+          : ["Invalid JSON"];
+        send({ type: "error", error: "Validation failed", details });
+        return;
+      }
+
+      if (command.type === "mark") {
+        if (playback) playback.mark(command.name);
+        else pending.push({ mark: command.name });
+      } else if (playback) {
+        const dropped = playback.clear();
+        send({ type: "cleared", droppedMs: Math.round((dropped / 2 / sampleRate) * 1000) });
+      } else {
+        // Nothing has played yet; pending marks are reported as cleared
+        const marks = pending.filter((item): item is { mark: string } => !Buffer.isBuffer(item));
+        const dropped = pending.reduce((bytes, item) => bytes + (Buffer.isBuffer(item) ? item.length : 0), 0);
+        pending = [];
+        pendingBytes = 0;
+        for (const { mark } of marks) send({ type: "mark", name: mark, cleared: true });
+        send({ type: "cleared", droppedMs: Math.round((dropped / 2 / sampleRate) * 1000) });
+      }
+    });
+
+    ariConn.startLiveAudio(callId, sampleRate).then((started) => {
+      if (closed) {
+        started.stop().catch(() => {});
+        return;
+      }
+      playback = started;
+      playback.on("mark", ({ name, cleared }) => send({ type: "mark", name, cleared }));
+      playback.on("underrun", () => send({ type: "underrun" }));
+      // Replaced by another playback (speak, play) or torn down with the call
+      playback.on("stopped", () => {
+        if (!closed) end("playback-stopped");
+      });
+
+      send({ type: "start", format: slinFormatName(sampleRate), encoding: "s16le", sampleRate, channels: 1 });
+      for (const item of pending) {
+        if (Buffer.isBuffer(item)) enqueue(item);
+        else playback.mark(item.mark);
+      }
+      pending = [];
+      pendingBytes = 0;
+    }).catch((err) => {
+      console.error(`[WS] Failed to start audio injection for call ${callId}:`, err);
+      send({ type: "error", error: err instanceof Error ? err.message : String(err) });
+      ws.close(1011, "Playback failed");
+    });
+
+    const onCallEvent = (event: CallEvent) => {
+      if (event.callId === callId && event.type === "call.ended") end("call-ended");
+    };
+    callManager.on("event", onCallEvent);
+
+    ws.on("close", () => {
+      closed = true;
+      callManager.off("event", onCallEvent);
+      playback?.stop().catch((err) => {
+        console.warn(`[WS] Failed to stop audio injection for call ${callId}:`, err);
+      });
+      console.log(`[WS] Audio injection client disconnected for call ${callId}`);
+    });
+  });
+
+  return wss;
+}
@@ -0,0 +1,159 @@
+/**
+ * Blocked Call Log
+ *
+ * Records every call attempt rejected by the allowlist/denylist in a
+ * bounded in-memory ring, optionally appending each entry to a JSONL file
+ * so the history survives restarts. Emits "blocked" for each new entry.
+ */
+
+import { EventEmitter } from "node:events";
+import { randomUUID } from "node:crypto";
+import { appendFile } from "node:fs/promises";
+import { createReadStream, existsSync } from "node:fs";
+import { createInterface } from "node:readline";
+import type { AllowlistDecision, AllowlistDirection } from "./allowlist.js";
+
+export interface BlockedAttempt {
+  id: string;
+  timestamp: Date;
+  direction: AllowlistDirection;
+  /** Number that was checked ("" if none could be extracted) */
+  number: string;
+  /** Outbound: requested endpoint. Inbound: caller channel name */
+  endpoint?: string;
+  /** Inbound: ARI channel ID of the rejected caller */
+  channelId?: string;
+  /** Pattern of the deny/allow rule involved, if any */
+  rule?: string;
+  outcome: AllowlistDecision["outcome"];
+  reason?: string;
+  /** Outbound: masked API key the request was made with */
+  apiKey?: string;
+}
+
+export interface BlockedAttemptQuery {
+  direction?: AllowlistDirection;
+  /** Matches attempts whose number contains these digits */
+  number?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+/**
+ * Mask an API key for logging, keeping only the last 4 characters.
+ */
+export function maskApiKey(key: string | undefined): string | undefined {
+  if (!key) return undefined;
+  return key.length <= 4 ? "****" : `****${key.slice(-4)}`;
+}
+
+export class BlockedCallLog extends EventEmitter {
+  private entries: BlockedAttempt[] = [];
+
+  constructor(
+    private maxEntries: number,
+    private filePath?: string,
+    private log = console
+  ) {
+    super();
+  }
+
+  /**
+   * Create a log seeded from the tail of `filePath`, if given and present.
+   */
+  static async open(maxEntries: number, filePath?: string, log = console): Promise<BlockedCallLog> {
+    const blockedLog = new BlockedCallLog(maxEntries, filePath, log);
+    if (filePath) await blockedLog.loadFromFile(filePath);
+    return blockedLog;
+  }
+
+  /**
+   * Record a blocked attempt from an allowlist decision.
+   */
+  record(
+    direction: AllowlistDirection,
+    decision: AllowlistDecision,
+    details: { endpoint?: string; channelId?: string; apiKey?: string } = {}
+  ): BlockedAttempt {
+    const attempt: BlockedAttempt = {
+      id: randomUUID(),
+      timestamp: new Date(),
+      direction,
+      number: decision.number,
+      endpoint: details.endpoint,
+      channelId: details.channelId,
+      rule: decision.rule?.pattern,
+      outcome: decision.outcome,
+      reason: decision.reason,
+      apiKey: maskApiKey(details.apiKey),
+    };
+
+    this.push(attempt);
+    this.emit("blocked", attempt);
+
+    if (this.filePath) {
+      appendFile(this.filePath, JSON.stringify(attempt) + "\n", "utf-8").catch((err) => {
+        this.log.warn(`[BlockedLog] Failed to append to ${this.filePath}:`, err);
+      });
+    }
+
+    return attempt;
+  }
+
+  /**
+   * Query recorded attempts, newest first.
+   */
+  query(filter: BlockedAttemptQuery = {}): BlockedAttempt[] {
+    const digits = filter.number?.replace(/\D/g, "");
+    const result: BlockedAttempt[] = [];
+    const limit = filter.limit ?? 100;
+
+    for (let i = this.entries.length - 1; i >= 0 && result.length < limit; i--) {
+      const entry = this.entries[i];
+      if (filter.direction && entry.direction !== filter.direction) continue;
+      if (digits && !entry.number.includes(digits)) continue;
+      if (filter.since && entry.timestamp < filter.since) continue;
+      if (filter.until && entry.timestamp > filter.until) continue;
+      result.push(entry);
+    }
+    return result;
+  }
+
+  size(): number {
+    return this.entries.length;
+  }
+
+  private push(attempt: BlockedAttempt): void {
+    this.entries.push(attempt);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+  }
+
+  /**
+   * Seed the ring from the tail of an existing JSONL file, read line by line
+   * so only the newest maxEntries attempts are held in memory.
+   */
+  private async loadFromFile(filePath: string): Promise<void> {
+    if (!existsSync(filePath)) return;
+    try {
+      const input = createInterface({ input: createReadStream(filePath, "utf-8"), crlfDelay: Infinity });
+      for await (const line of input) {
+        if (!line.trim()) continue;
+        try {
+          const parsed = JSON.parse(line);
+          this.entries.push({ ...parsed, timestamp: new Date(parsed.timestamp) });
+        } catch {
+          // Skip corrupt lines (e.g. partial write on crash)
+        }
+        // Trim in batches rather than shifting the array on every line
+        if (this.entries.length >= this.maxEntries * 2) this.entries.splice(0, this.entries.length - this.maxEntries);
+      }
+      if (this.entries.length > this.maxEntries) this.entries.splice(0, this.entries.length - this.maxEntries);
+      this.log.info(`[BlockedLog] Loaded ${this.entries.length} blocked attempts from ${filePath}`);
+    } catch (err) {
+      this.log.warn(`[BlockedLog] Failed to read ${filePath}:`, err);
+    }
+  }
+}
@@ -1,20 +1,114 @@
 import { EventEmitter } from "node:events";
-import type { CallRecord, CallState, CallEvent, BridgeRecord } from "./types.js";
+import { randomUUID } from "node:crypto";
+import type {
+  CallRecord, CallState, CallEvent, CallTimeline, CallTranscript, CallHangup, CallMetadataUpdate, BridgeRecord,
+  CallActivity, CallActivities, CallUsage, LegEndPolicy, TranscriptSpeaker,
+} from "./types.js";
+import type { CallStore, CallHistoryQuery, CallHistoryPage } from "./call-store.js";
+
+/** Allowed lifecycle transitions. ended and failed are terminal. */
+const TRANSITIONS: Record<CallState, readonly CallState[]> = {
+  initiating: ["ringing", "answered", "failed", "ended"],
+  ringing: ["answered", "failed", "ended"],
+  answered: ["ready", "ended"],
+  ready: ["ended"],
+  ended: [],
+  failed: [],
+};
+
+function idleActivities(): CallActivities {
+  return { playing: false, speaking: false, recording: false, bridged: false };
+}
+
+function emptyUsage(): CallUsage {
+  return { speakCount: 0, ttsSeconds: 0, transcriptionSegments: 0 };
+}
+
+function isTerminal(state: CallState): boolean {
+  return TRANSITIONS[state].length === 0;
+}
+
+/** Audio frames and partial transcriptions are stream-only and not kept in the timeline. */
+function isTimelineEvent(event: CallEvent): boolean {
+  if (event.type === "call.audio_frame") return false;
+  if (event.type === "call.transcription") return event.data.is_final === true;
+  return true;
+}
+
+/** Result of CallManager.eventsSince() */
+export type EventReplay =
+  | { available: true; events: CallEvent[] }
+  /**
+   * expired: events after `since` were already dropped from the replay buffer.
+   * restarted: `since` is from another process (its epoch does not match, or it is ahead of this stream).
+   */
+  | { available: false; oldestSeq: number; lastSeq: number; reason: "expired" | "restarted" };
+
+/** Late transcript segments of an ended call are saved together after this quiet period */
+const LATE_SAVE_DELAY_MS = 3000;
+
+/** When the segment in progress started, per source, while building a transcript */
+interface TranscriptProgress {
+  /** First partial transcription since the last final one */
+  speechStartedAt?: Date;
+  speakStartedAt?: Date;
+}
 
 /**
  * Manages active call and bridge state and emits events for the WebSocket stream.
+ * Every event gets the next sequence number, and recent events are kept in a
+ * bounded replay buffer for clients that reconnect. Each call's events are
+ * also kept in a bounded timeline, and its final transcriptions and spoken text
+ * in a transcript. Ended calls with their timelines and transcripts are handed
+ * to the optional CallStore for history.
  */
 export class CallManager extends EventEmitter {
   private calls = new Map<string, CallRecord>();
   private bridges = new Map<string, BridgeRecord>();
+  private timelines = new Map<string, CallTimeline>();
+  private transcripts = new Map<string, CallTranscript & TranscriptProgress>();
   private cleanupTimers = new Map<string, NodeJS.Timeout>();
+  /** Debounced re-saves of ended calls, see persistLater() */
+  private saveTimers = new Map<string, NodeJS.Timeout>();
+  /** History saves in progress, awaited on shutdown */
+  private saving = new Set<Promise<void>>();
+  /** Identifies this process's event stream; seq restarts with it, so resuming needs both */
+  readonly epoch = randomUUID();
+  private lastSeq = 0;
+  private replay: CallEvent[] = [];
+  /** Highest sequence number dropped from the replay buffer */
+  private replayDroppedSeq = 0;
+
+  constructor(
+    private store?: CallStore,
+    /** Events kept per call; older events are dropped first */
+    private timelineSize = 1000,
+    /** Recent events kept for eventsSince(); audio frames are not kept */
+    private replaySize = 10000,
+    private log = console
+  ) {
+    super();
+  }
 
   // ── Call management ───────────────────────────────────────────────
 
-  create(record: CallRecord): void {
-    this.calls.set(record.id, record);
-    this.emit("call:created", record);
-    this.emitCallEvent(record.id, "call.created", { state: record.state });
+  create(
+    record: Omit<CallRecord, "activities" | "usage" | "bridgeIds" | "role" | "legs"> &
+      Partial<Pick<CallRecord, "activities" | "usage" | "bridgeIds" | "role" | "legs">>
+  ): CallRecord {
+    const call: CallRecord = Object.assign(record, {
+      activities: record.activities ?? idleActivities(),
+      usage: record.usage ?? emptyUsage(),
+      bridgeIds: record.bridgeIds ?? [],
+      role: record.role ?? "primary",
+      legs: record.legs ?? [],
+    });
+    this.calls.set(call.id, call);
+    this.timelines.set(call.id, { events: [], dropped: 0 });
+    this.transcripts.set(call.id, { segments: [] });
+    this.emit("call:created", call);
+    this.emitCallEvent(call.id, "call.created", { state: call.state });
+    return call;
   }
 
   get(callId: string): CallRecord | undefined {
@@ -29,42 +123,90 @@ export class CallManager extends EventEmitter {
   }
 
   listActive(): CallRecord[] {
-    return Array.from(this.calls.values()).filter(
-      (c) => c.state !== "ended" && c.state !== "failed"
-    );
+    return Array.from(this.calls.values()).filter((c) => !isTerminal(c.state));
   }
 
-  updateState(callId: string, state: CallState, extra?: Partial<CallRecord>): void {
+  /**
+   * Move a call to a new lifecycle state. Transitions not in the table are
+   * logged and ignored (returns false); moving to the current state is a no-op.
+   */
+  updateState(callId: string, state: CallState, extra?: Partial<CallRecord>): boolean {
     const call = this.calls.get(callId);
-    if (!call) return;
+    if (!call) return false;
+    if (call.state === state) return true;
 
-    const previousState = call.state;
-    call.state = state;
-    if (extra) Object.assign(call, extra);
+    if (!TRANSITIONS[call.state].includes(state)) {
+      this.log.warn(`[CallManager] Ignoring illegal transition ${call.state} → ${state} for call ${callId}`);
+      return false;
+    }
 
-    this.emitCallEvent(callId, "call.state_changed", {
-      previousState,
-      state,
-      ...extra,
-    });
+    this.applyChange(call, { state }, extra);
+    return true;
   }
 
-  setBridge(callId: string, bridgeId: string): void {
+  /**
+   * Set or clear an activity flag. Activities can only start on a live call;
+   * clearing is always allowed.
+   */
+  setActivity(callId: string, activity: CallActivity, active: boolean, extra?: Partial<CallRecord>): boolean {
     const call = this.calls.get(callId);
-    if (call) {
-      call.bridgeId = bridgeId;
-      call.state = "bridged";
+    if (!call) return false;
+    if (call.activities[activity] === active && !extra) return true;
+
+    if (active && isTerminal(call.state)) {
+      this.log.warn(`[CallManager] Ignoring ${activity} on ${call.state} call ${callId}`);
+      return false;
     }
+
+    this.applyChange(call, { activities: { ...call.activities, [activity]: active } }, extra);
+    return true;
+  }
+
+  setBridge(callId: string, bridgeId: string): void {
+    const call = this.calls.get(callId);
+    if (call && !call.bridgeIds.includes(bridgeId)) call.bridgeIds.push(bridgeId);
+    this.setActivity(callId, "bridged", true, { bridgeId });
   }
 
   clearBridge(callId: string): void {
+    this.setActivity(callId, "bridged", false, { bridgeId: undefined });
+  }
+
+  /**
+   * Merge client metadata into a call (null values remove keys) and/or set its
+   * clientReference. Emits call.metadata_updated.
+   */
+  updateMetadata(callId: string, update: CallMetadataUpdate): CallRecord | undefined {
     const call = this.calls.get(callId);
-    if (call) {
-      call.bridgeId = undefined;
-      if (call.state === "bridged") {
-        call.state = "answered";
+    if (!call) return undefined;
+
+    if (update.metadata) {
+      const metadata = { ...call.metadata, ...update.metadata };
+      for (const [key, value] of Object.entries(update.metadata)) {
+        if (value === null) delete metadata[key];
       }
+      call.metadata = Object.keys(metadata).length > 0 ? metadata : undefined;
+    }
+    if (update.clientReference !== undefined) {
+      call.clientReference = update.clientReference ?? undefined;
     }
+
+    this.emitCallEvent(callId, "call.metadata_updated", {});
+    return call;
+  }
+
+  /**
+   * Record that `legId` was created by transferring `parentId`. Emits
+   * call.leg_added on the parent.
+   */
+  linkLeg(parentId: string, legId: string, onLegEnd: LegEndPolicy): void {
+    const parent = this.calls.get(parentId);
+    const leg = this.calls.get(legId);
+    if (!parent || !leg) return;
+
+    if (!parent.legs.includes(legId)) parent.legs.push(legId);
+    Object.assign(leg, { parentCallId: parentId, role: "transfer", onLegEnd });
+    this.emitCallEvent(parentId, "call.leg_added", { legCallId: legId, onLegEnd });
   }
 
   addRecording(callId: string, recordingName: string): void {
@@ -72,42 +214,123 @@ export class CallManager extends EventEmitter {
     if (call) call.recordings.push(recordingName);
   }
 
-  end(callId: string, cause?: string): void {
+  /**
+   * End a call. A failed call keeps its state; ending twice is a no-op
+   * (the first cause and initiator win).
+   */
+  end(callId: string, hangup: CallHangup = { by: "system" }): void {
     const call = this.calls.get(callId);
-    if (!call) return;
+    if (!call || call.endedAt) return;
 
-    call.state = "ended";
-    call.endedAt = new Date();
-    call.hangupCause = cause;
+    this.applyChange(
+      call,
+      { state: call.state === "failed" ? "failed" : "ended", activities: idleActivities() },
+      { endedAt: new Date(), hangupCause: hangup.causeText, hangupCauseCode: hangup.cause, hangupBy: hangup.by }
+    );
 
-    this.emitCallEvent(callId, "call.ended", { cause });
+    this.emitCallEvent(callId, "call.ended", {
+      cause: hangup.causeText,
+      causeCode: hangup.cause,
+      hangupBy: hangup.by,
+    });
+    this.persist(callId);
 
     // Clean up after 5 minutes
     const timer = setTimeout(() => {
+      this.flushSave(callId);
       this.calls.delete(callId);
+      this.timelines.delete(callId);
+      this.transcripts.delete(callId);
       this.cleanupTimers.delete(callId);
     }, 5 * 60 * 1000);
     this.cleanupTimers.set(callId, timer);
   }
 
-  /** Clear all pending cleanup timers (for graceful shutdown). */
-  clearAllTimers(): void {
+  /**
+   * Save the current state of a call to the history store.
+   */
+  persist(callId: string): void {
+    clearTimeout(this.saveTimers.get(callId));
+    this.saveTimers.delete(callId);
+    const call = this.calls.get(callId);
+    if (!call || !this.store) return;
+    const save = this.store.save(call, this.timelines.get(callId), this.findActiveTranscript(callId)).catch((err) => {
+      this.log.warn(`[CallManager] Failed to save call ${callId} to history:`, err);
+    });
+    this.saving.add(save);
+    save.finally(() => this.saving.delete(save));
+  }
+
+  /**
+   * Save an ended call again once no further changes arrived for
+   * LATE_SAVE_DELAY_MS, so a burst of late updates is stored once.
+   */
+  private persistLater(callId: string): void {
+    clearTimeout(this.saveTimers.get(callId));
+    this.saveTimers.set(callId, setTimeout(() => this.persist(callId), LATE_SAVE_DELAY_MS));
+  }
+
+  /** Run a pending persistLater() save now. */
+  private flushSave(callId: string): void {
+    if (this.saveTimers.has(callId)) this.persist(callId);
+  }
+
+  /**
+   * Find a call that is active or was recently ended, falling back to the history store.
+   */
+  async find(callId: string): Promise<CallRecord | undefined> {
+    return this.calls.get(callId) ?? (await this.store?.get(callId));
+  }
+
+  /**
+   * Events of an active or recently ended call, falling back to the history store.
+   */
+  async findTimeline(callId: string): Promise<CallTimeline | undefined> {
+    const timeline = this.timelines.get(callId);
+    if (timeline) return { events: [...timeline.events], dropped: timeline.dropped };
+    return this.store?.getTimeline(callId);
+  }
+
+  /**
+   * Transcript of an active or recently ended call, falling back to the history store.
+   */
+  async findTranscript(callId: string): Promise<CallTranscript | undefined> {
+    return this.findActiveTranscript(callId) ?? this.store?.getTranscript(callId);
+  }
+
+  private findActiveTranscript(callId: string): CallTranscript | undefined {
+    const transcript = this.transcripts.get(callId);
+    return transcript ? { segments: [...transcript.segments] } : undefined;
+  }
+
+  /**
+   * Query ended calls in the history store (empty without a store).
+   */
+  async queryHistory(filter: CallHistoryQuery): Promise<CallHistoryPage> {
+    if (!this.store) return { calls: [] };
+    return this.store.query(filter);
+  }
+
+  /**
+   * Clear all pending cleanup timers, save pending late updates and wait for
+   * history saves in progress (for graceful shutdown).
+   */
+  async clearAllTimers(): Promise<void> {
     for (const timer of this.cleanupTimers.values()) {
       clearTimeout(timer);
     }
     this.cleanupTimers.clear();
+    for (const callId of [...this.saveTimers.keys()]) {
+      this.flushSave(callId);
+    }
+    await Promise.all(this.saving);
   }
 
   // ── Bridge management ─────────────────────────────────────────────
 
   createBridge(record: BridgeRecord): void {
     this.bridges.set(record.id, record);
-    this.emit("event", {
-      type: "bridge.created",
-      callId: "",
-      timestamp: new Date(),
-      data: { bridgeId: record.id, name: record.name, type: record.type },
-    } satisfies CallEvent);
+    this.emitCallEvent("", "bridge.created", { bridgeId: record.id, name: record.name, type: record.type });
   }
 
   getBridge(bridgeId: string): BridgeRecord | undefined {
@@ -134,28 +357,156 @@ export class CallManager extends EventEmitter {
 
   deleteBridge(bridgeId: string): void {
     this.bridges.delete(bridgeId);
-    this.emit("event", {
-      type: "bridge.destroyed",
-      callId: "",
-      timestamp: new Date(),
-      data: { bridgeId },
-    } satisfies CallEvent);
+    this.emitCallEvent("", "bridge.destroyed", { bridgeId });
+  }
+
+  // ── Replay ────────────────────────────────────────────────────────
+
+  /** Sequence number of the most recent event (0 before the first). */
+  currentSeq(): number {
+    return this.lastSeq;
+  }
+
+  /**
+   * Events with a sequence number above `since` of stream `epoch`, oldest
+   * first, or available: false when `since` belongs to another stream or some
+   * of the events are no longer in the replay buffer.
+   * Audio frames are never replayed.
+   */
+  eventsSince(since: number, epoch: string): EventReplay {
+    const unavailable = { available: false, oldestSeq: this.replayDroppedSeq + 1, lastSeq: this.lastSeq } as const;
+    if (epoch !== this.epoch || since > this.lastSeq) return { ...unavailable, reason: "restarted" };
+    if (since < this.replayDroppedSeq) return { ...unavailable, reason: "expired" };
+    // Sequence numbers increase along the buffer; audio frames leave gaps
+    const start = this.replay.findIndex((event) => event.seq > since);
+    return { available: true, events: start === -1 ? [] : this.replay.slice(start) };
   }
 
   // ── Events ────────────────────────────────────────────────────────
 
+  /**
+   * The single place where call state and activities change. Emits
+   * call.state_changed with the full activity flags.
+   */
+  private applyChange(
+    call: CallRecord,
+    change: { state?: CallState; activities?: CallActivities },
+    extra?: Partial<CallRecord>
+  ): void {
+    const previousState = call.state;
+    if (change.state) call.state = change.state;
+    if (change.activities) call.activities = change.activities;
+    if (extra) Object.assign(call, extra);
+
+    this.emitCallEvent(call.id, "call.state_changed", {
+      previousState,
+      state: call.state,
+      activities: { ...call.activities },
+      ...extra,
+    });
+  }
+
   /** Emit a call event for WebSocket broadcast and listeners. */
   broadcastEvent(callId: string, type: string, data: Record<string, unknown>): void {
     this.emitCallEvent(callId, type, data);
   }
 
   private emitCallEvent(callId: string, type: string, data: Record<string, unknown>): void {
+    const call = this.calls.get(callId);
     const event: CallEvent = {
+      seq: ++this.lastSeq,
       type,
       callId,
       timestamp: new Date(),
       data,
+      ...(call?.clientReference !== undefined ? { clientReference: call.clientReference } : {}),
+      // updateMetadata() replaces the object, so events can share it
+      ...(call?.metadata ? { metadata: call.metadata } : {}),
     };
+    if (call) {
+      this.countUsage(call, event);
+      this.transcribe(call, event);
+    }
+    this.record(event);
+    this.buffer(event);
     this.emit("event", event);
   }
+
+  /** Append an event to the replay buffer, dropping the oldest beyond replaySize. */
+  private buffer(event: CallEvent): void {
+    if (event.type === "call.audio_frame") return;
+    this.replay.push(event);
+    if (this.replay.length > this.replaySize) {
+      this.replayDroppedSeq = this.replay.shift()!.seq;
+    }
+  }
+
+  /** Keep CallRecord.usage in step with the speak and transcription events of the call. */
+  private countUsage(call: CallRecord, event: CallEvent): void {
+    if (event.type === "call.speak_finished") {
+      call.usage.speakCount++;
+      call.usage.ttsSeconds += typeof event.data.durationSeconds === "number" ? event.data.durationSeconds : 0;
+    } else if (event.type === "call.transcription" && event.data.is_final === true) {
+      call.usage.transcriptionSegments++;
+    }
+  }
+
+  /**
+   * Add final transcriptions (the caller) and finished speak() text (the agent)
+   * to the call's transcript. ASR results carry no timing, so a caller segment
+   * runs from its first partial result to the final one, and an agent segment
+   * covers the synthesized audio played before speak_finished.
+   */
+  private transcribe(call: CallRecord, event: CallEvent): void {
+    const transcript = this.transcripts.get(call.id);
+    const text = typeof event.data.text === "string" ? event.data.text.trim() : "";
+    if (!transcript) return;
+
+    if (event.type === "call.transcription") {
+      if (event.data.is_final !== true) {
+        transcript.speechStartedAt ??= event.timestamp;
+        return;
+      }
+      const start = transcript.speechStartedAt ?? event.timestamp;
+      transcript.speechStartedAt = undefined;
+      if (text) this.addSegment(call, transcript, "caller", start, event.timestamp, text);
+    } else if (event.type === "call.speak_started") {
+      transcript.speakStartedAt = event.timestamp;
+    } else if (event.type === "call.speak_finished") {
+      const duration = typeof event.data.durationSeconds === "number" ? event.data.durationSeconds : undefined;
+      const start = duration !== undefined
+        ? new Date(event.timestamp.getTime() - duration * 1000)
+        : transcript.speakStartedAt ?? event.timestamp;
+      transcript.speakStartedAt = undefined;
+      if (text) this.addSegment(call, transcript, "agent", start, event.timestamp, text);
+    } else if (event.type === "call.speak_error") {
+      transcript.speakStartedAt = undefined;
+    }
+  }
+
+  private addSegment(
+    call: CallRecord,
+    transcript: CallTranscript,
+    speaker: TranscriptSpeaker,
+    start: Date,
+    end: Date,
+    text: string
+  ): void {
+    const origin = (call.answeredAt ?? call.createdAt).getTime();
+    const offset = (at: Date) => Math.max(0, Math.round(at.getTime() - origin) / 1000);
+    transcript.segments.push({ start: offset(start), end: offset(end), speaker, text });
+    // The ASR flush can deliver the last results after the call was saved
+    if (call.endedAt) this.persistLater(call.id);
+  }
+
+  /** Append an event to its call's timeline, dropping the oldest beyond timelineSize. */
+  private record(event: CallEvent): void {
+    const timeline = this.timelines.get(event.callId);
+    if (!timeline || !isTimelineEvent(event)) return;
+    timeline.events.push(event);
+    if (timeline.events.length > this.timelineSize) {
+      timeline.events.shift();
+      timeline.dropped++;
+    }
+  }
 }
@@ -0,0 +1,306 @@
+/**
+ * Call History Store
+ *
+ * Keeps ended CallRecords after CallManager forgets them. The CallStore
+ * interface is async so it can be backed by a database; two implementations
+ * ship here:
+ *
+ *   - MemoryCallStore: bounded in-memory history, lost on restart
+ *   - JsonlCallStore:  MemoryCallStore plus a JSONL file that is appended to and
+ *                      replayed on startup (later lines for the same call win),
+ *                      and compacted to the retained calls when it grows too long
+ *
+ * Each call is stored together with its event timeline and transcript.
+ */
+
+import { appendFile, rename, rm } from "node:fs/promises";
+import { createReadStream, createWriteStream, existsSync } from "node:fs";
+import { once } from "node:events";
+import { finished } from "node:stream/promises";
+import { createInterface } from "node:readline";
+import { resolve, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { CallRecord, CallState, CallTimeline, CallTranscript, HangupInitiator } from "./types.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+export const DEFAULT_CALL_HISTORY_PATH = resolve(__dirname, "../call-history.jsonl");
+
+export interface CallHistoryQuery {
+  direction?: CallRecord["direction"];
+  /** Matches calls whose caller or callee number contains these digits */
+  number?: string;
+  state?: CallState;
+  /** Case-insensitive exact match on the cause text */
+  hangupCause?: string;
+  /** Q.850 cause code */
+  hangupCauseCode?: number;
+  hangupBy?: HangupInitiator;
+  /** Calls created at or after this time */
+  from?: Date;
+  /** Calls created at or before this time */
+  to?: Date;
+  limit?: number;
+  /** Opaque cursor from a previous page's nextCursor */
+  cursor?: string;
+}
+
+export interface CallHistoryPage {
+  /** Newest first (by createdAt) */
+  calls: CallRecord[];
+  /** Pass as `cursor` to fetch the next page; absent on the last page */
+  nextCursor?: string;
+}
+
+export interface CallStore {
+  /** Persist a call, its timeline and transcript. Saving the same call ID again replaces the earlier record. */
+  save(call: CallRecord, timeline?: CallTimeline, transcript?: CallTranscript): Promise<void>;
+  get(callId: string): Promise<CallRecord | undefined>;
+  getTimeline(callId: string): Promise<CallTimeline | undefined>;
+  getTranscript(callId: string): Promise<CallTranscript | undefined>;
+  query(filter: CallHistoryQuery): Promise<CallHistoryPage>;
+}
+
+/** Thrown for a cursor that was not produced by this store. */
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+interface CursorPosition {
+  createdAt: number;
+  id: string;
+}
+
+function encodeCursor(call: CallRecord): string {
+  return Buffer.from(`${call.createdAt.getTime()}:${call.id}`).toString("base64url");
+}
+
+function decodeCursor(cursor: string): CursorPosition {
+  const [ts, id] = Buffer.from(cursor, "base64url").toString("utf-8").split(":");
+  const createdAt = Number(ts);
+  if (!id || !Number.isFinite(createdAt)) throw new InvalidCursorError();
+  return { createdAt, id };
+}
+
+/** Newest first; ties broken by ID so pagination is stable. */
+function compareNewestFirst(a: CursorPosition, b: CursorPosition): number {
+  return b.createdAt - a.createdAt || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+}
+
+/**
+ * Restore Date fields of a CallRecord read back from JSON.
+ */
+export function reviveCallRecord(raw: any): CallRecord {
+  const toDate = (value: unknown) => (value ? new Date(value as string) : undefined);
+  return {
+    ...raw,
+    createdAt: new Date(raw.createdAt),
+    answeredAt: toDate(raw.answeredAt),
+    endedAt: toDate(raw.endedAt),
+    adoptedAt: toDate(raw.adoptedAt),
+    activities: raw.activities ?? { playing: false, speaking: false, recording: false, bridged: false },
+    usage: raw.usage ?? { speakCount: 0, ttsSeconds: 0, transcriptionSegments: 0 },
+    bridgeIds: raw.bridgeIds ?? (raw.bridgeId ? [raw.bridgeId] : []),
+    role: raw.role ?? "primary",
+    legs: raw.legs ?? [],
+    ...(raw.audioCapture ? { audioCapture: { ...raw.audioCapture, startedAt: new Date(raw.audioCapture.startedAt) } } : {}),
+  };
+}
+
+/**
+ * Restore event timestamps of a CallTimeline read back from JSON.
+ */
+export function reviveCallTimeline(raw: any): CallTimeline {
+  return {
+    events: (raw.events ?? []).map((event: any) => ({ ...event, timestamp: new Date(event.timestamp) })),
+    dropped: raw.dropped ?? 0,
+  };
+}
+
+interface StoredCall {
+  call: CallRecord;
+  timeline: CallTimeline;
+  transcript: CallTranscript;
+}
+
+export class MemoryCallStore implements CallStore {
+  protected calls = new Map<string, StoredCall>();
+
+  constructor(protected maxEntries: number) {}
+
+  async save(
+    call: CallRecord,
+    timeline: CallTimeline = { events: [], dropped: 0 },
+    transcript: CallTranscript = { segments: [] }
+  ): Promise<void> {
+    this.put(structuredClone({ call, timeline, transcript }));
+  }
+
+  async get(callId: string): Promise<CallRecord | undefined> {
+    return this.calls.get(callId)?.call;
+  }
+
+  async getTimeline(callId: string): Promise<CallTimeline | undefined> {
+    return this.calls.get(callId)?.timeline;
+  }
+
+  async getTranscript(callId: string): Promise<CallTranscript | undefined> {
+    return this.calls.get(callId)?.transcript;
+  }
+
+  async query(filter: CallHistoryQuery): Promise<CallHistoryPage> {
+    const after = filter.cursor ? decodeCursor(filter.cursor) : undefined;
+    const digits = filter.number?.replace(/\D/g, "");
+    const cause = filter.hangupCause?.toLowerCase();
+    const limit = filter.limit ?? 50;
+
+    const matches = Array.from(this.calls.values(), (stored) => stored.call)
+      .filter((call) => {
+        if (filter.direction && call.direction !== filter.direction) return false;
+        if (filter.state && call.state !== filter.state) return false;
+        if (cause && call.hangupCause?.toLowerCase() !== cause) return false;
+        if (filter.hangupCauseCode !== undefined && call.hangupCauseCode !== filter.hangupCauseCode) return false;
+        if (filter.hangupBy && call.hangupBy !== filter.hangupBy) return false;
+        if (digits && !call.callerNumber.includes(digits) && !call.calleeNumber.includes(digits)) return false;
+        if (filter.from && call.createdAt < filter.from) return false;
+        if (filter.to && call.createdAt > filter.to) return false;
+        if (after && compareNewestFirst(after, { createdAt: call.createdAt.getTime(), id: call.id }) >= 0) return false;
+        return true;
+      })
+      .sort((a, b) => compareNewestFirst(
+        { createdAt: a.createdAt.getTime(), id: a.id },
+        { createdAt: b.createdAt.getTime(), id: b.id }
+      ));
+
+    const calls = matches.slice(0, limit);
+    return {
+      calls,
+      nextCursor: matches.length > limit ? encodeCursor(calls[calls.length - 1]) : undefined,
+    };
+  }
+
+  size(): number {
+    return this.calls.size;
+  }
+
+  /** Insert or replace, evicting the oldest-inserted records beyond maxEntries. */
+  protected put(stored: StoredCall): void {
+    this.calls.delete(stored.call.id);
+    this.calls.set(stored.call.id, stored);
+    while (this.calls.size > this.maxEntries) {
+      const oldest = this.calls.keys().next().value as string;
+      this.calls.delete(oldest);
+    }
+  }
+}
+
+/** The file is rewritten once it holds this many lines per retained call */
+const COMPACT_FACTOR = 2;
+
+function toLine({ call, timeline, transcript }: StoredCall): string {
+  return JSON.stringify({ ...call, timeline, transcript }) + "\n";
+}
+
+export class JsonlCallStore extends MemoryCallStore {
+  /** Lines in the file, including superseded and evicted calls */
+  private lines = 0;
+  /** Set when the file could not be read completely; it is then never rewritten */
+  private loadFailed = false;
+  /** Appends and compactions, in order */
+  private writes: Promise<void> = Promise.resolve();
+
+  private constructor(
+    maxEntries: number,
+    private filePath: string,
+    private log: Pick<Console, "info" | "warn">
+  ) {
+    super(maxEntries);
+  }
+
+  /**
+   * Open a store backed by `filePath`, replaying the file into memory.
+   */
+  static async open(
+    maxEntries: number,
+    filePath: string = DEFAULT_CALL_HISTORY_PATH,
+    log: Pick<Console, "info" | "warn"> = console
+  ): Promise<JsonlCallStore> {
+    const store = new JsonlCallStore(maxEntries, filePath, log);
+    await store.loadFromFile();
+    if (store.needsCompaction()) await store.compact();
+    return store;
+  }
+
+  /** One line per call: the CallRecord with its timeline and transcript under `timeline` and `transcript`. */
+  async save(call: CallRecord, timeline?: CallTimeline, transcript?: CallTranscript): Promise<void> {
+    const line = JSON.stringify({ ...call, timeline, transcript }) + "\n";
+    await super.save(call, timeline, transcript);
+    this.writes = this.writes.then(async () => {
+      try {
+        await appendFile(this.filePath, line, "utf-8");
+        this.lines++;
+      } catch (err) {
+        this.log.warn(`[CallStore] Failed to append to ${this.filePath}:`, err);
+      }
+      if (this.needsCompaction()) await this.compact();
+    });
+    await this.writes;
+  }
+
+  private needsCompaction(): boolean {
+    return !this.loadFailed && this.lines > this.maxEntries * COMPACT_FACTOR;
+  }
+
+  /**
+   * Rewrite the file with one line per retained call, through a temporary
+   * file so a crash midway leaves the old file intact.
+   */
+  private async compact(): Promise<void> {
+    const tmpPath = `${this.filePath}.tmp`;
+    const before = this.lines;
+    try {
+      const out = createWriteStream(tmpPath, "utf-8");
+      for (const stored of this.calls.values()) {
+        if (!out.write(toLine(stored))) await once(out, "drain");
+      }
+      out.end();
+      await finished(out);
+      await rename(tmpPath, this.filePath);
+      this.lines = this.calls.size;
+      this.log.info(`[CallStore] Compacted ${this.filePath} from ${before} to ${this.lines} lines`);
+    } catch (err) {
+      this.log.warn(`[CallStore] Failed to compact ${this.filePath}:`, err);
+      await rm(tmpPath, { force: true });
+    }
+  }
+
+  /**
+   * Replay the file into memory, line by line. Only the newest maxEntries calls are kept.
+   */
+  private async loadFromFile(): Promise<void> {
+    if (!existsSync(this.filePath)) return;
+    try {
+      const input = createInterface({ input: createReadStream(this.filePath, "utf-8"), crlfDelay: Infinity });
+      for await (const line of input) {
+        if (!line.trim()) continue;
+        this.lines++;
+        try {
+          const { timeline, transcript, ...raw } = JSON.parse(line);
+          this.put({
+            call: reviveCallRecord(raw),
+            timeline: reviveCallTimeline(timeline ?? {}),
+            transcript: { segments: transcript?.segments ?? [] },
+          });
+        } catch {
+          // Skip corrupt lines (e.g. partial write on crash)
+        }
+      }
+      this.log.info(`[CallStore] Loaded ${this.size()} calls from ${this.filePath}`);
+    } catch (err) {
+      this.loadFailed = true;
+      this.log.warn(`[CallStore] Failed to read ${this.filePath}, it will not be compacted:`, err);
+    }
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Call Capacity
+ * Admission control for the resources each call ties up (ExternalMedia
+ * channels, bridges, ASR sessions): caps on concurrent calls in total,
+ * inbound calls, and concurrent ASR sessions. Every limit is optional; unset
+ * means unlimited.
+ *
+ * Unlike the outbound rate limits (rate-limit.ts), which are a toll-fraud
+ * policy answered with 429, these protect the service itself and are
+ * answered with 503 or the inbound busy treatment. Concurrent outbound calls
+ * are capped there (OUTBOUND_MAX_CONCURRENT), not here.
+ */
+
+import type { CallManager } from "./call-manager.js";
+import type { CallRecord } from "./types.js";
+
+export interface CallLimits {
+  /** Concurrent calls in both directions */
+  maxCalls?: number;
+  maxInbound?: number;
+  /** Concurrent ASR sessions; calls over the cap get no transcription */
+  maxAsrSessions?: number;
+}
+
+export type CallLimitKind = "calls" | "inbound";
+
+export interface AdmissionDecision {
+  allowed: boolean;
+  /** Limit that was hit (only set when allowed is false) */
+  limit?: CallLimitKind;
+  reason?: string;
+}
+
+export class CallAdmission {
+  constructor(
+    private limits: CallLimits,
+    private callManager: CallManager
+  ) {}
+
+  /**
+   * Whether a new call in `direction` fits within the limits.
+   */
+  admit(direction: CallRecord["direction"]): AdmissionDecision {
+    const active = this.callManager.listActive();
+    const { maxCalls, maxInbound } = this.limits;
+
+    if (maxCalls !== undefined && active.length >= maxCalls) {
+      return { allowed: false, limit: "calls", reason: `Maximum of ${maxCalls} concurrent calls reached` };
+    }
+
+    if (direction === "inbound" && maxInbound !== undefined
+      && active.filter((c) => c.direction === "inbound").length >= maxInbound) {
+      return { allowed: false, limit: "inbound", reason: `Maximum of ${maxInbound} concurrent inbound calls reached` };
+    }
+
+    return { allowed: true };
+  }
+
+  /** Whether another ASR session may be opened next to `activeSessions`. */
+  canStartAsr(activeSessions: number): boolean {
+    return this.limits.maxAsrSessions === undefined || activeSessions < this.limits.maxAsrSessions;
+  }
+
+  /**
+   * Current usage against each configured limit.
+   */
+  usage(asrSessions: number): Record<string, unknown> {
+    const active = this.callManager.listActive();
+    return {
+      calls: active.length,
+      maxCalls: this.limits.maxCalls ?? null,
+      inbound: active.filter((c) => c.direction === "inbound").length,
+      maxInbound: this.limits.maxInbound ?? null,
+      outbound: active.filter((c) => c.direction === "outbound").length,
+      asrSessions,
+      maxAsrSessions: this.limits.maxAsrSessions ?? null,
+    };
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Call Detail Records
+ * Flattens ended calls from the call history into one row per call with
+ * ring/talk durations, hangup cause, media usage and leg/bridge relations, for
+ * export as JSON or CSV (GET /cdr).
+ */
+
+import type { CallManager } from "./call-manager.js";
+import type { CallRecord } from "./types.js";
+
+export interface CdrRow {
+  callId: string;
+  direction: CallRecord["direction"];
+  callerNumber: string;
+  calleeNumber: string;
+  endpoint?: string;
+  clientReference?: string;
+  state: CallRecord["state"];
+  createdAt: string;
+  answeredAt?: string;
+  endedAt?: string;
+  /** Seconds from creation until answer (or until the end for unanswered calls) */
+  ringSeconds: number;
+  /** Seconds from answer until the end; 0 for unanswered calls */
+  talkSeconds: number;
+  hangupCause?: string;
+  hangupCauseCode?: number;
+  hangupBy?: CallRecord["hangupBy"];
+  recordings: string[];
+  speakCount: number;
+  ttsSeconds: number;
+  transcriptionSegments: number;
+  role: CallRecord["role"];
+  parentCallId?: string;
+  legs: string[];
+  bridgeIds: string[];
+  /** Other calls in this export that shared a bridge with this one (e.g. transfer legs) */
+  bridgedWith: string[];
+}
+
+/** CSV column order */
+export const CDR_COLUMNS: readonly (keyof CdrRow)[] = [
+  "callId", "direction", "callerNumber", "calleeNumber", "endpoint", "clientReference", "state",
+  "createdAt", "answeredAt", "endedAt", "ringSeconds", "talkSeconds",
+  "hangupCause", "hangupCauseCode", "hangupBy", "recordings",
+  "speakCount", "ttsSeconds", "transcriptionSegments", "role", "parentCallId", "legs", "bridgeIds", "bridgedWith",
+];
+
+/** History page size used while collecting calls */
+const PAGE_SIZE = 500;
+
+function seconds(from: Date, to: Date): number {
+  return Math.max(0, Math.round((to.getTime() - from.getTime()) / 100) / 10);
+}
+
+/**
+ * CDR rows for ended calls created in [from, to], oldest first.
+ */
+export async function buildCdr(callManager: CallManager, range: { from?: Date; to?: Date }): Promise<CdrRow[]> {
+  const calls: CallRecord[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await callManager.queryHistory({ ...range, limit: PAGE_SIZE, cursor });
+    calls.push(...page.calls);
+    cursor = page.nextCursor;
+  } while (cursor);
+  calls.reverse();
+
+  const callsByBridge = new Map<string, string[]>();
+  for (const call of calls) {
+    for (const bridgeId of call.bridgeIds) {
+      callsByBridge.set(bridgeId, [...(callsByBridge.get(bridgeId) ?? []), call.id]);
+    }
+  }
+
+  return calls.map((call) => {
+    const end = call.endedAt ?? call.createdAt;
+    const bridgedWith = new Set(call.bridgeIds.flatMap((id) => callsByBridge.get(id) ?? []));
+    bridgedWith.delete(call.id);
+
+    return {
+      callId: call.id,
+      direction: call.direction,
+      callerNumber: call.callerNumber,
+      calleeNumber: call.calleeNumber,
+      endpoint: call.endpoint,
+      clientReference: call.clientReference,
+      state: call.state,
+      createdAt: call.createdAt.toISOString(),
+      answeredAt: call.answeredAt?.toISOString(),
+      endedAt: call.endedAt?.toISOString(),
+      ringSeconds: seconds(call.createdAt, call.answeredAt ?? end),
+      talkSeconds: call.answeredAt ? seconds(call.answeredAt, end) : 0,
+      hangupCause: call.hangupCause,
+      hangupCauseCode: call.hangupCauseCode,
+      hangupBy: call.hangupBy,
+      recordings: [...call.recordings],
+      speakCount: call.usage.speakCount,
+      ttsSeconds: Math.round(call.usage.ttsSeconds * 10) / 10,
+      transcriptionSegments: call.usage.transcriptionSegments,
+      role: call.role,
+      parentCallId: call.parentCallId,
+      legs: [...call.legs],
+      bridgeIds: [...call.bridgeIds],
+      bridgedWith: Array.from(bridgedWith),
+    };
+  });
+}
+
+/**
+ * Quote a CSV field. Text a spreadsheet would evaluate as a formula (client
+ * references, dial strings and caller numbers are client or caller supplied)
+ * is prefixed with ' and quoted.
+ */
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = Array.isArray(value) ? value.join(";") : String(value);
+  if (typeof value !== "number" && /^[=+\-@\t\r]/.test(text)) {
+    return `"'${text.replace(/"/g, '""')}"`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render rows as CSV with a header line (lists are joined with ";").
+ */
+export function toCsv(rows: CdrRow[]): string {
+  const lines = [CDR_COLUMNS.join(",")];
+  for (const row of rows) {
+    lines.push(CDR_COLUMNS.map((column) => csvField(row[column])).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
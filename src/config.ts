@@ -1,5 +1,7 @@
 import { z } from "zod";
 import "dotenv/config";
+import { LEG_END_POLICIES } from "./types.js";
+import { RejectionPolicySchema } from "./allowlist.js";
 
 const ConfigSchema = z.object({
   ari: z.object({
@@ -14,6 +16,75 @@ const ConfigSchema = z.object({
     apiKey: z.string().optional(),
   }),
   audio: z.object({}),
+  allowlist: z.object({
+    /** Number of blocked call attempts kept in memory for GET /allowlist/blocked */
+    blockedLogSize: z.coerce.number().int().min(1).default(1000),
+    /** Optional JSONL file that every blocked attempt is appended to */
+    blockedLogFile: z.string().optional(),
+    /** Block all calls when allowlist.json does not exist (default: allow all) */
+    failClosed: z.enum(["true", "false"]).default("false").transform((v) => v === "true"),
+  }),
+  phone: z.object({
+    /** Country code added to national numbers, e.g. "65" (omit to leave national numbers as-is) */
+    defaultCountryCode: z.string().regex(/^\d{1,3}$/).optional(),
+    /** International dialing prefix stripped from numbers, e.g. "00" or "011" */
+    internationalPrefix: z.string().regex(/^\d*$/).default("00"),
+    /** National trunk prefix replaced by the country code, e.g. "0" */
+    nationalPrefix: z.string().regex(/^\d+$/).optional(),
+    /** Digits in a national number without trunk prefix, e.g. 8 for Singapore */
+    nationalNumberLength: z.coerce.number().int().min(4).max(15).optional(),
+    /** Numbers up to this many digits are internal extensions and never get a country code */
+    maxExtensionLength: z.coerce.number().int().min(0).max(10).default(6),
+  }),
+  outbound: z.object({
+    /** Max calls per minute across all destinations (unset = unlimited) */
+    callsPerMinute: z.coerce.number().int().min(1).optional(),
+    /** Max calls per minute to one destination number */
+    callsPerMinutePerNumber: z.coerce.number().int().min(1).optional(),
+    /** Max calls per minute to destinations sharing a prefix */
+    callsPerMinutePerPrefix: z.coerce.number().int().min(1).optional(),
+    /** Digits that make up a destination prefix for callsPerMinutePerPrefix */
+    prefixLength: z.coerce.number().int().min(1).max(15).default(5),
+    /** Max concurrent outbound calls */
+    maxConcurrent: z.coerce.number().int().min(1).optional(),
+    /** Daily quota of outbound talk minutes (server time zone) */
+    dailyMinutes: z.coerce.number().min(1).optional(),
+  }),
+  capacity: z.object({
+    /** Max concurrent calls in both directions (unset = unlimited) */
+    maxCalls: z.coerce.number().int().min(1).optional(),
+    /** Max concurrent inbound calls */
+    maxInbound: z.coerce.number().int().min(1).optional(),
+    /** Max concurrent ASR sessions */
+    maxAsrSessions: z.coerce.number().int().min(1).optional(),
+    /** What inbound callers over a limit get: a rejection policy as JSON, as in allowlist.json */
+    busyTreatment: z.string().default('{"action":"hangup","cause":"busy"}').transform((value, ctx) => {
+      try {
+        return JSON.parse(value);
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "must be JSON" });
+        return z.NEVER;
+      }
+    }).pipe(RejectionPolicySchema),
+  }),
+  history: z.object({
+    /** Where ended calls are kept: "file" (JSONL, survives restarts) or "memory" */
+    store: z.enum(["file", "memory"]).default("file"),
+    /** JSONL file for the file store (default: call-history.jsonl next to allowlist.json) */
+    file: z.string().optional(),
+    /** Ended calls kept in memory (each with its timeline and transcript) and loaded from the file on startup */
+    maxEntries: z.coerce.number().int().min(1).default(5000),
+    /** Events kept per call for GET /calls/:id/events (oldest dropped first) */
+    timelineSize: z.coerce.number().int().min(1).default(1000),
+  }),
+  events: z.object({
+    /** Recent events kept for WebSocket clients resuming with ?since=<seq> (audio frames excluded) */
+    replaySize: z.coerce.number().int().min(0).default(10000),
+  }),
+  transfer: z.object({
+    /** What happens to the other leg when one leg of a transfer ends (see LegEndPolicy) */
+    legEndPolicy: z.enum(LEG_END_POLICIES).default("hangup-both"),
+  }),
   inbound: z.object({
     /** Delay in ms before answering inbound calls (simulates ringing) */
     ringDelayMs: z.coerce.number().int().min(0).default(3000),
@@ -49,6 +120,44 @@ export function loadConfig(): Config {
       apiKey: process.env.API_KEY || undefined,
     },
     audio: {},
+    allowlist: {
+      blockedLogSize: process.env.BLOCKED_LOG_SIZE,
+      blockedLogFile: process.env.BLOCKED_LOG_FILE || undefined,
+      failClosed: process.env.ALLOWLIST_FAIL_CLOSED || undefined,
+    },
+    phone: {
+      defaultCountryCode: process.env.PHONE_DEFAULT_COUNTRY_CODE || undefined,
+      internationalPrefix: process.env.PHONE_INTERNATIONAL_PREFIX,
+      nationalPrefix: process.env.PHONE_NATIONAL_PREFIX || undefined,
+      nationalNumberLength: process.env.PHONE_NATIONAL_NUMBER_LENGTH || undefined,
+      maxExtensionLength: process.env.PHONE_MAX_EXTENSION_LENGTH,
+    },
+    outbound: {
+      callsPerMinute: process.env.OUTBOUND_CALLS_PER_MINUTE || undefined,
+      callsPerMinutePerNumber: process.env.OUTBOUND_CALLS_PER_MINUTE_PER_NUMBER || undefined,
+      callsPerMinutePerPrefix: process.env.OUTBOUND_CALLS_PER_MINUTE_PER_PREFIX || undefined,
+      prefixLength: process.env.OUTBOUND_PREFIX_LENGTH,
+      maxConcurrent: process.env.OUTBOUND_MAX_CONCURRENT || undefined,
+      dailyMinutes: process.env.OUTBOUND_DAILY_MINUTES || undefined,
+    },
+    capacity: {
+      maxCalls: process.env.MAX_CALLS || undefined,
+      maxInbound: process.env.MAX_INBOUND_CALLS || undefined,
+      maxAsrSessions: process.env.MAX_ASR_SESSIONS || undefined,
+      busyTreatment: process.env.INBOUND_BUSY_TREATMENT || undefined,
+    },
+    history: {
+      store: process.env.CALL_HISTORY_STORE || undefined,
+      file: process.env.CALL_HISTORY_FILE || undefined,
+      maxEntries: process.env.CALL_HISTORY_MAX_ENTRIES,
+      timelineSize: process.env.CALL_TIMELINE_SIZE,
+    },
+    events: {
+      replaySize: process.env.EVENT_REPLAY_SIZE,
+    },
+    transfer: {
+      legEndPolicy: process.env.TRANSFER_LEG_END_POLICY || undefined,
+    },
     inbound: {
       ringDelayMs: process.env.INBOUND_RING_DELAY_MS,
     },
@@ -0,0 +1,102 @@
+/**
+ * Hangup Causes
+ * ARI hangup reason names and the ITU-T Q.850 cause codes Asterisk reports
+ * in ChannelHangupRequest / ChannelDestroyed, so ended calls carry a numeric
+ * cause and a readable text ("User busy", "No answer", ...).
+ *
+ * @module hangup-cause
+ */
+
+import type { HangupInitiator } from "./types.js";
+
+/** Hangup causes accepted by ARI's DELETE /channels/{channelId} */
+export const HANGUP_CAUSES = [
+  "normal", "busy", "congestion", "no_answer", "timeout", "rejected", "unallocated",
+  "normal_unspecified", "number_incomplete", "codec_mismatch", "interworking", "failure",
+  "answered_elsewhere",
+] as const;
+export type HangupCause = (typeof HANGUP_CAUSES)[number];
+
+/** Q.850 code Asterisk uses for each ARI hangup reason */
+export const HANGUP_CAUSE_CODES: Record<HangupCause, number> = {
+  normal: 16,
+  busy: 17,
+  congestion: 34,
+  no_answer: 19,
+  timeout: 18,
+  rejected: 21,
+  unallocated: 1,
+  normal_unspecified: 31,
+  number_incomplete: 28,
+  codec_mismatch: 58,
+  interworking: 127,
+  failure: 38,
+  answered_elsewhere: 26,
+};
+
+/** Q.850 cause texts, used when Asterisk does not send its own cause_txt */
+const Q850_TEXTS: Record<number, string> = {
+  1: "Unallocated (unassigned) number",
+  2: "No route to specified transit network",
+  3: "No route to destination",
+  6: "Channel unacceptable",
+  7: "Call awarded and being delivered in an established channel",
+  16: "Normal Clearing",
+  17: "User busy",
+  18: "No user responding",
+  19: "User alerting, no answer",
+  20: "Subscriber absent",
+  21: "Call Rejected",
+  22: "Number changed",
+  23: "Redirected to new destination",
+  26: "Answered elsewhere",
+  27: "Destination out of order",
+  28: "Invalid number format",
+  29: "Facility rejected",
+  30: "Response to STATus ENQuiry",
+  31: "Normal, unspecified",
+  34: "Circuit/channel congestion",
+  38: "Network out of order",
+  41: "Temporary failure",
+  42: "Switching equipment congestion",
+  43: "Access information discarded",
+  44: "Requested channel not available",
+  50: "Requested facility not subscribed",
+  52: "Outgoing call barred",
+  54: "Incoming call barred",
+  57: "Bearer capability not authorized",
+  58: "Bearer capability not available",
+  65: "Bearer capability not implemented",
+  66: "Channel not implemented",
+  69: "Facility not implemented",
+  81: "Invalid call reference value",
+  88: "Incompatible destination",
+  95: "Invalid message unspecified",
+  96: "Mandatory information element is missing",
+  97: "Message type nonexist.",
+  98: "Wrong message",
+  99: "Info. element nonexist or not implemented",
+  100: "Invalid information element contents",
+  101: "Message not compatible with call state",
+  102: "Recover on timer expiry",
+  111: "Protocol error, unspecified",
+  127: "Interworking, unspecified",
+};
+
+/** Causes that mean nobody picked up before a timer ran out */
+const TIMEOUT_CAUSES = new Set([18, 19]);
+
+/**
+ * Q.850 text for a cause code, or undefined for 0/unknown codes.
+ */
+export function describeHangupCause(code: number | undefined): string | undefined {
+  return code ? Q850_TEXTS[code] : undefined;
+}
+
+/**
+ * Who ended a call when no hangup request was seen before the channel went away:
+ * timeouts count as the system, any other reported cause as the far end.
+ */
+export function inferHangupInitiator(code: number | undefined): HangupInitiator {
+  return !code || TIMEOUT_CAUSES.has(code) ? "system" : "caller";
+}
@@ -1,26 +1,58 @@
 import { createServer } from "node:http";
 import { loadConfig } from "./config.js";
 import { CallManager } from "./call-manager.js";
+import { JsonlCallStore, MemoryCallStore } from "./call-store.js";
 import { AriConnection } from "./ari-connection.js";
 import { createApi } from "./api.js";
 import { attachWebSocketServer } from "./ws-server.js";
-import { loadAllowlist, watchAllowlist } from "./allowlist.js";
+import { allowlistEvents, configureAllowlist, loadAllowlist, watchAllowlist } from "./allowlist.js";
+import { BlockedCallLog } from "./blocked-log.js";
+import { configureNumberingPlan } from "./phone-number.js";
 
 async function main() {
   const config = loadConfig();
 
+  // Numbering plan must be set before the allowlist is loaded (entries are normalized with it)
+  configureNumberingPlan(config.phone);
+
   // Load allowlist for inbound/outbound call filtering
+  configureAllowlist({ failClosed: config.allowlist.failClosed });
   loadAllowlist();
   watchAllowlist();
-  const callManager = new CallManager();
-  const ariConn = new AriConnection(config, callManager);
+
+  // Ended calls and their event timelines are kept in the history store (GET /calls/history)
+  const callStore = config.history.store === "memory"
+    ? new MemoryCallStore(config.history.maxEntries)
+    : await JsonlCallStore.open(config.history.maxEntries, config.history.file);
+  const callManager = new CallManager(callStore, config.history.timelineSize, config.events.replaySize);
+
+  // Report rejected allowlist.json edits on the event stream
+  allowlistEvents.on("invalid", (error) => {
+    callManager.broadcastEvent("", "allowlist.invalid", { ...error });
+  });
+  allowlistEvents.on("loaded", (allowlist) => {
+    callManager.broadcastEvent("", "allowlist.loaded", {
+      inbound: allowlist.inbound.length,
+      outbound: allowlist.outbound.length,
+      denyInbound: allowlist.deny.inbound.length,
+      denyOutbound: allowlist.deny.outbound.length,
+    });
+  });
+
+  // Record blocked call attempts and broadcast them on the event stream
+  const blockedLog = await BlockedCallLog.open(config.allowlist.blockedLogSize, config.allowlist.blockedLogFile);
+  blockedLog.on("blocked", (attempt) => {
+    callManager.broadcastEvent("", "allowlist.blocked", { ...attempt });
+  });
+
+  const ariConn = new AriConnection(config, callManager, blockedLog);
 
   // Create Express app and HTTP server
-  const app = createApi(config, ariConn, callManager);
+  const app = createApi(config, ariConn, callManager, blockedLog);
   const server = createServer(app);
 
   // Attach WebSocket server for event streaming
-  attachWebSocketServer(server, callManager);
+  attachWebSocketServer(server, callManager, ariConn, config.api.apiKey);
 
   // Connect to Asterisk ARI
   await ariConn.connect();
@@ -30,13 +62,14 @@ async function main() {
     console.log(`[Server] Listening on ${config.api.host}:${config.api.port}`);
     console.log(`[Server] REST API: http://${config.api.host}:${config.api.port}`);
     console.log(`[Server] WebSocket: ws://${config.api.host}:${config.api.port}/events`);
+    console.log(`[Server] Call audio: ws://${config.api.host}:${config.api.port}/calls/:id/audio[/in]`);
   });
 
   // Graceful shutdown
   const shutdown = async () => {
     console.log("\n[Server] Shutting down...");
     await ariConn.disconnect();
-    callManager.clearAllTimers();
+    await callManager.clearAllTimers();
     server.close();
     process.exit(0);
   };
@@ -0,0 +1,126 @@
+/**
+ * Phone Number Normalization
+ * Converts caller IDs, dialed numbers and endpoint strings into one canonical
+ * form so the same number always compares equal:
+ *
+ *   - international numbers → E.164 digits without '+' ("6596542555")
+ *   - short internal extensions → kept as-is ("1001")
+ *
+ * "+65 9654 2555", "0065 9654 2555" and (with default country 65) "9654 2555"
+ * all normalize to "6596542555".
+ *
+ * @module phone-number
+ */
+
+export interface NumberingPlan {
+  /** Country code applied to national numbers, e.g. "65" (default: none) */
+  defaultCountryCode?: string;
+  /** International dialing prefix, e.g. "00" or "011" */
+  internationalPrefix: string;
+  /** National trunk prefix stripped before adding the country code, e.g. "0" (default: none) */
+  nationalPrefix?: string;
+  /** Digit count of a national number without trunk prefix, e.g. 8 for Singapore (default: any) */
+  nationalNumberLength?: number;
+  /** Numbers with at most this many digits are treated as internal extensions */
+  maxExtensionLength: number;
+}
+
+let plan: NumberingPlan = {
+  internationalPrefix: "00",
+  maxExtensionLength: 6,
+};
+
+/**
+ * Set the numbering plan used by all normalization helpers.
+ */
+export function configureNumberingPlan(next: Partial<NumberingPlan>): void {
+  plan = { ...plan, ...next };
+}
+
+export function getNumberingPlan(): NumberingPlan {
+  return plan;
+}
+
+/**
+ * Strip the international dialing prefix ('+' or e.g. "00").
+ * Returns the remaining digits, or undefined if the number is not in international format.
+ */
+function stripInternationalPrefix(input: string): string | undefined {
+  const trimmed = input.trim();
+  if (trimmed.startsWith("+")) return trimmed.slice(1).replace(/\D/g, "");
+
+  const digits = trimmed.replace(/\D/g, "");
+  // Short numbers starting with the prefix (e.g. extension "0012") are not international
+  if (digits.length <= plan.maxExtensionLength) return undefined;
+  if (plan.internationalPrefix && digits.startsWith(plan.internationalPrefix)) {
+    return digits.slice(plan.internationalPrefix.length);
+  }
+  return undefined;
+}
+
+/**
+ * Normalize a phone number to E.164 digits (no '+'), or an extension.
+ * Returns "" if the input has no digits.
+ */
+export function normalizeNumber(input: string | undefined | null): string {
+  if (!input) return "";
+
+  const international = stripInternationalPrefix(input);
+  if (international !== undefined) return international;
+
+  const digits = input.replace(/\D/g, "");
+  if (!digits || digits.length <= plan.maxExtensionLength) return digits;
+
+  const cc = plan.defaultCountryCode;
+  if (!cc) return digits;
+
+  if (plan.nationalPrefix && digits.startsWith(plan.nationalPrefix)) {
+    return cc + digits.slice(plan.nationalPrefix.length);
+  }
+
+  if (plan.nationalNumberLength !== undefined) {
+    return digits.length === plan.nationalNumberLength ? cc + digits : digits;
+  }
+
+  // Without a known national length, assume numbers not already starting with the country code are national
+  return digits.startsWith(cc) ? digits : cc + digits;
+}
+
+/**
+ * Normalize the literal prefix of an allowlist pattern: a leading '+' or
+ * international prefix is removed so "+65*" and "0065*" become "65*".
+ * National-format patterns are left alone (a prefix cannot be expanded safely).
+ */
+export function normalizePatternPrefix(pattern: string): string {
+  if (pattern.startsWith("+")) return pattern.slice(1);
+  if (plan.internationalPrefix && pattern.startsWith(plan.internationalPrefix)) {
+    return pattern.slice(plan.internationalPrefix.length);
+  }
+  return pattern;
+}
+
+/**
+ * Extract and normalize the phone number from an endpoint string
+ * e.g., "PJSIP/trunk-provider/6596542555" → "6596542555"
+ * e.g., "SIP/+6596542555@provider" → "6596542555"
+ * e.g., "PJSIP/1001" → "1001" (extension)
+ * e.g., "PJSIP/alice" → ""
+ */
+export function extractNumberFromEndpoint(endpoint: string): string {
+  // Dialed number is the user part before '@', or else the last path segment
+  const resource = endpoint.split("/").slice(1).join("/") || endpoint;
+  const userPart = resource.includes("@") ? resource.split("@")[0] : resource.split("/").pop() ?? "";
+  const dialed = userPart.split("/").pop() ?? "";
+
+  if (/^\+?[\d\s().-]+$/.test(dialed) && /\d/.test(dialed)) {
+    return normalizeNumber(dialed);
+  }
+
+  // Fallback: find a sequence of digits that looks like a phone number (7+ digits)
+  const matches = endpoint.match(/\d{7,}/g);
+  if (matches && matches.length > 0) {
+    // Use the longest match (most likely the full phone number)
+    return normalizeNumber(matches.reduce((a, b) => (a.length >= b.length ? a : b)));
+  }
+  return "";
+}
@@ -0,0 +1,242 @@
+/**
+ * Outbound Rate Limiting
+ *
+ * Toll-fraud safeguards for originating calls: sliding one-minute windows
+ * (global, per destination number, per destination prefix), a cap on
+ * concurrent outbound calls and an optional daily quota of outbound talk
+ * minutes. Every limit is optional; unset means unlimited.
+ */
+
+import type { CallManager } from "./call-manager.js";
+import type { CallEvent, CallRecord } from "./types.js";
+
+export interface OutboundLimits {
+  /** Calls per minute across all destinations */
+  callsPerMinute?: number;
+  /** Calls per minute to the same destination number */
+  callsPerMinutePerNumber?: number;
+  /** Calls per minute to destinations sharing the first `prefixLength` digits */
+  callsPerMinutePerPrefix?: number;
+  prefixLength: number;
+  /** Outbound calls that may be active at the same time */
+  maxConcurrent?: number;
+  /** Outbound talk minutes per day (server time zone), counted from answer to hangup */
+  dailyMinutes?: number;
+}
+
+export type OutboundLimitKind = "global" | "number" | "prefix" | "concurrent" | "daily-minutes";
+
+export interface OutboundLimitDecision {
+  allowed: boolean;
+  /** Limit that was hit (only set when allowed is false) */
+  limit?: OutboundLimitKind;
+  reason?: string;
+  /** Seconds until a retry can succeed (an estimate for the concurrency limit) */
+  retryAfterSeconds?: number;
+}
+
+const WINDOW_MS = 60_000;
+
+/** Retry-After for the concurrency limit, which frees up whenever a call ends */
+const CONCURRENT_RETRY_SECONDS = 10;
+
+/** Date key of `now` in the server time zone, e.g. "2026-02-07". */
+function localDay(now: Date): string {
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+}
+
+function secondsUntilMidnight(now: Date): number {
+  const midnight = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+  return Math.ceil((midnight.getTime() - now.getTime()) / 1000);
+}
+
+function talkSeconds(call: CallRecord, now: Date): number {
+  if (!call.answeredAt) return 0;
+  const end = call.endedAt ?? now;
+  return Math.max(0, (end.getTime() - call.answeredAt.getTime()) / 1000);
+}
+
+export class OutboundRateLimiter {
+  private global: number[] = [];
+  private perNumber = new Map<string, number[]>();
+  private perPrefix = new Map<string, number[]>();
+  /** Calls allowed by acquire() that have no call record yet */
+  private reserved = 0;
+  /** Talk seconds of outbound calls that ended on `quotaDay` */
+  private endedSeconds = 0;
+  private quotaDay = localDay(new Date());
+
+  constructor(
+    private limits: OutboundLimits,
+    private callManager: CallManager,
+    private log = console
+  ) {
+    if (limits.dailyMinutes !== undefined) {
+      callManager.on("event", (event: CallEvent) => {
+        if (event.type !== "call.ended") return;
+        const call = callManager.get(event.callId);
+        if (call?.direction === "outbound") this.addEndedCall(call);
+      });
+    }
+  }
+
+  /**
+   * Check all limits for a call to `number` and, if allowed, count it
+   * against the per-minute windows and reserve a concurrency slot. The
+   * caller must release() the slot once the call record exists.
+   */
+  acquire(number: string, now = new Date()): OutboundLimitDecision {
+    const decision = this.check(number, now);
+    if (!decision.allowed) {
+      this.log.warn(`[RateLimit] Outbound call to ${number || "unknown"} rejected: ${decision.reason}`);
+      return decision;
+    }
+
+    const ts = now.getTime();
+    this.reserved++;
+    this.global.push(ts);
+    if (number) {
+      this.push(this.perNumber, number, ts);
+      this.push(this.perPrefix, number.slice(0, this.limits.prefixLength), ts);
+    }
+    return decision;
+  }
+
+  /**
+   * Give back the slot reserved by an allowed acquire(), once the call record
+   * exists (the call is then counted as active) or the originate failed first.
+   */
+  release(): void {
+    this.reserved = Math.max(0, this.reserved - 1);
+  }
+
+  /**
+   * Current usage against each configured limit.
+   */
+  usage(now = new Date()): Record<string, unknown> {
+    this.prune(now.getTime());
+    return {
+      callsLastMinute: this.global.length,
+      callsPerMinute: this.limits.callsPerMinute ?? null,
+      activeOutbound: this.activeOutbound().length,
+      pendingOutbound: this.reserved,
+      maxConcurrent: this.limits.maxConcurrent ?? null,
+      minutesToday: Math.round(this.usedSeconds(now) / 6) / 10,
+      dailyMinutes: this.limits.dailyMinutes ?? null,
+    };
+  }
+
+  private check(number: string, now: Date): OutboundLimitDecision {
+    const ts = now.getTime();
+    this.prune(ts);
+
+    const { callsPerMinute, callsPerMinutePerNumber, callsPerMinutePerPrefix, maxConcurrent, dailyMinutes } = this.limits;
+
+    // Originates still in flight count too, or parallel requests would all see the same active count
+    if (maxConcurrent !== undefined && this.activeOutbound().length + this.reserved >= maxConcurrent) {
+      return {
+        allowed: false,
+        limit: "concurrent",
+        reason: `Maximum of ${maxConcurrent} concurrent outbound calls reached`,
+        retryAfterSeconds: CONCURRENT_RETRY_SECONDS,
+      };
+    }
+
+    if (dailyMinutes !== undefined && this.usedSeconds(now) >= dailyMinutes * 60) {
+      return {
+        allowed: false,
+        limit: "daily-minutes",
+        reason: `Daily quota of ${dailyMinutes} outbound minutes used up`,
+        retryAfterSeconds: secondsUntilMidnight(now),
+      };
+    }
+
+    if (callsPerMinute !== undefined && this.global.length >= callsPerMinute) {
+      return {
+        allowed: false,
+        limit: "global",
+        reason: `More than ${callsPerMinute} outbound calls per minute`,
+        retryAfterSeconds: this.retryAfter(this.global, ts),
+      };
+    }
+
+    if (!number) return { allowed: true };
+
+    const numberWindow = this.perNumber.get(number) ?? [];
+    if (callsPerMinutePerNumber !== undefined && numberWindow.length >= callsPerMinutePerNumber) {
+      return {
+        allowed: false,
+        limit: "number",
+        reason: `More than ${callsPerMinutePerNumber} calls per minute to ${number}`,
+        retryAfterSeconds: this.retryAfter(numberWindow, ts),
+      };
+    }
+
+    const prefix = number.slice(0, this.limits.prefixLength);
+    const prefixWindow = this.perPrefix.get(prefix) ?? [];
+    if (callsPerMinutePerPrefix !== undefined && prefixWindow.length >= callsPerMinutePerPrefix) {
+      return {
+        allowed: false,
+        limit: "prefix",
+        reason: `More than ${callsPerMinutePerPrefix} calls per minute to numbers starting with ${prefix}`,
+        retryAfterSeconds: this.retryAfter(prefixWindow, ts),
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  private activeOutbound(): CallRecord[] {
+    return this.callManager.listActive().filter((c) => c.direction === "outbound");
+  }
+
+  /** Talk seconds used today: ended calls plus the running time of active ones. */
+  private usedSeconds(now: Date): number {
+    this.rollQuotaDay(now);
+    const active = this.activeOutbound().reduce((sum, call) => sum + talkSeconds(call, now), 0);
+    return this.endedSeconds + active;
+  }
+
+  private addEndedCall(call: CallRecord): void {
+    const now = new Date();
+    this.rollQuotaDay(now);
+    this.endedSeconds += talkSeconds(call, now);
+  }
+
+  private rollQuotaDay(now: Date): void {
+    const day = localDay(now);
+    if (day !== this.quotaDay) {
+      this.quotaDay = day;
+      this.endedSeconds = 0;
+    }
+  }
+
+  /** Seconds until the oldest entry leaves the window. */
+  private retryAfter(window: number[], ts: number): number {
+    return Math.max(1, Math.ceil((window[0] + WINDOW_MS - ts) / 1000));
+  }
+
+  private push(map: Map<string, number[]>, key: string, ts: number): void {
+    const window = map.get(key);
+    if (window) window.push(ts);
+    else map.set(key, [ts]);
+  }
+
+  /** Drop timestamps older than the window, and empty keys. */
+  private prune(ts: number): void {
+    const cutoff = ts - WINDOW_MS;
+    const trim = (window: number[]) => {
+      let i = 0;
+      while (i < window.length && window[i] <= cutoff) i++;
+      if (i > 0) window.splice(0, i);
+    };
+
+    trim(this.global);
+    for (const map of [this.perNumber, this.perPrefix]) {
+      for (const [key, window] of map) {
+        trim(window);
+        if (window.length === 0) map.delete(key);
+      }
+    }
+  }
+}
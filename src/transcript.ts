@@ -0,0 +1,39 @@
+/**
+ * Call Transcripts
+ * Renders a call's transcript (built by CallManager from final transcriptions
+ * and speak() text) as plain text or WebVTT for GET /calls/:id/transcript.
+ */
+
+import type { CallTranscript } from "./types.js";
+
+export const TRANSCRIPT_FORMATS = ["json", "text", "vtt"] as const;
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number];
+
+/** Seconds as HH:MM:SS.mmm */
+function timestamp(seconds: number): string {
+  const ms = Math.round(seconds * 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+  return `${pad(Math.floor(ms / 3_600_000))}:${pad(Math.floor(ms / 60_000) % 60)}:` +
+    `${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+}
+
+/**
+ * One line per segment: "[00:00:03.200] caller: text".
+ */
+export function toTranscriptText(transcript: CallTranscript): string {
+  return transcript.segments
+    .map((segment) => `[${timestamp(segment.start)}] ${segment.speaker}: ${segment.text}\n`)
+    .join("");
+}
+
+/**
+ * WebVTT with one cue per segment and the speaker as a voice span.
+ */
+export function toWebVtt(transcript: CallTranscript): string {
+  const cues = transcript.segments.map((segment, i) => {
+    // "-->" must not appear in cue text; < and & would start markup
+    const text = segment.text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/-->/g, "--&gt;");
+    return `${i + 1}\n${timestamp(segment.start)} --> ${timestamp(segment.end)}\n<v ${segment.speaker}>${text}\n`;
+  });
+  return ["WEBVTT\n", ...cues].join("\n");
+}
@@ -1,14 +1,60 @@
-export type CallState =
-  | "initiating"
-  | "ringing"
-  | "answered"
-  | "ready"
-  | "playing"
-  | "speaking"
-  | "recording"
-  | "bridged"
-  | "ended"
-  | "failed";
+/**
+ * Call lifecycle. Allowed transitions are enforced by CallManager; what the
+ * call is doing meanwhile (playing, recording, ...) is tracked in `activities`.
+ */
+export const CALL_STATES = [
+  "initiating",
+  "ringing",
+  "answered",
+  "ready",
+  "ended",
+  "failed",
+] as const;
+
+export type CallState = (typeof CALL_STATES)[number];
+
+/** Activities that can run at the same time on an answered call. */
+export const CALL_ACTIVITIES = ["playing", "speaking", "recording", "bridged"] as const;
+
+export type CallActivity = (typeof CALL_ACTIVITIES)[number];
+
+export type CallActivities = Record<CallActivity, boolean>;
+
+/** A call on its own (or the original leg of a transfer), or a leg created by transferCall */
+export type CallLegRole = "primary" | "transfer";
+
+/**
+ * What happens to the other leg of a transfer when one leg ends. The transfer
+ * bridge is destroyed in every case.
+ *   - hangup-both:     hang up the other leg too
+ *   - keep-other:      leave the other leg up, unbridged
+ *   - return-to-agent: leave it up and hand it back to the AI agent (audio capture + ASR)
+ */
+export const LEG_END_POLICIES = ["hangup-both", "keep-other", "return-to-agent"] as const;
+
+export type LegEndPolicy = (typeof LEG_END_POLICIES)[number];
+
+/** Per-call counters for call detail records */
+export interface CallUsage {
+  /** Completed speak() requests */
+  speakCount: number;
+  /** Total duration of synthesized speech played */
+  ttsSeconds: number;
+  /** Final transcription segments received from ASR */
+  transcriptionSegments: number;
+}
+
+/** Who ended a call: the party on the call, a client through the API, or this service/Asterisk (timeouts, failures) */
+export type HangupInitiator = "caller" | "api" | "system";
+
+/** How a call ended, as passed to CallManager.end() */
+export interface CallHangup {
+  /** Q.850 cause code */
+  cause?: number;
+  /** Q.850 cause text, or an error message for failed originates */
+  causeText?: string;
+  by: HangupInitiator;
+}
 
 export interface CallRecord {
   id: string;
@@ -16,14 +62,40 @@ export interface CallRecord {
   bridgeId?: string;
   state: CallState;
   direction: "inbound" | "outbound";
+  /** Normalized E.164 digits (no '+') or extension */
   callerNumber: string;
+  /** Normalized E.164 digits (no '+') or extension */
   calleeNumber: string;
+  /** Dial string used to originate (outbound only) */
+  endpoint?: string;
   createdAt: Date;
   answeredAt?: Date;
   endedAt?: Date;
+  /** Set when the call was rebuilt from a live channel after a restart or ARI reconnect */
+  adoptedAt?: Date;
+  /** Q.850 cause text, e.g. "User busy" */
   hangupCause?: string;
+  /** Q.850 cause code, e.g. 17 */
+  hangupCauseCode?: number;
+  hangupBy?: HangupInitiator;
+  /** Activity flags, e.g. playing while recording while bridged */
+  activities: CallActivities;
+  usage: CallUsage;
+  /** Every bridge the call has been in, in join order */
+  bridgeIds: string[];
+  role: CallLegRole;
+  /** Call this leg was transferred from (transfer legs only) */
+  parentCallId?: string;
+  /** Transfer legs created from this call, oldest first */
+  legs: string[];
+  /** Policy applied when this transfer leg or its parent ends (transfer legs only) */
+  onLegEnd?: LegEndPolicy;
   recordings: string[];
   audioCapture?: AudioCaptureInfo;
+  /** Client-supplied data, echoed in every event and webhook of the call */
+  metadata?: Record<string, unknown>;
+  /** Client-supplied ID (e.g. ticket or conversation), echoed like metadata */
+  clientReference?: string;
 }
 
 export interface AudioCaptureInfo {
@@ -46,10 +118,38 @@ export interface AudioFrame {
 }
 
 export interface CallEvent {
+  /** Position in the service-wide event stream, increasing by one per event (restarts at 1 with the process) */
+  seq: number;
   type: string;
   callId: string;
   timestamp: Date;
   data: Record<string, unknown>;
+  /** Copied from the call, when set */
+  clientReference?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/** Ordered events of one call, oldest first. */
+export interface CallTimeline {
+  events: CallEvent[];
+  /** Oldest events dropped because the timeline reached its size limit */
+  dropped: number;
+}
+
+/** Who said a transcript segment: the far end of the call (as in hangupBy) or this service via speak() */
+export type TranscriptSpeaker = "caller" | "agent";
+
+export interface TranscriptSegment {
+  /** Seconds from answeredAt (createdAt for unanswered calls) */
+  start: number;
+  end: number;
+  speaker: TranscriptSpeaker;
+  text: string;
+}
+
+/** Final ASR results and spoken text of one call, oldest first. */
+export interface CallTranscript {
+  segments: TranscriptSegment[];
 }
 
 export interface OriginateRequest {
@@ -57,6 +157,14 @@ export interface OriginateRequest {
   callerId?: string;
   timeout?: number;
   variables?: Record<string, string>;
+  metadata?: Record<string, unknown>;
+  clientReference?: string;
+}
+
+/** Body of PATCH /calls/:id. A metadata key set to null is removed. */
+export interface CallMetadataUpdate {
+  metadata?: Record<string, unknown>;
+  clientReference?: string | null;
 }
 
 export interface PlayRequest {
@@ -82,6 +190,8 @@ export interface TransferRequest {
   endpoint: string;
   callerId?: string;
   timeout?: number;
+  /** Overrides TRANSFER_LEG_END_POLICY for this transfer */
+  onLegEnd?: LegEndPolicy;
 }
 
 export interface AudioCaptureConfig {
@@ -21,7 +21,8 @@ declare module "ari-client" {
     state: string;
     caller: { name: string; number: string };
     connected: { name: string; number: string };
-    dialplan: { context: string; exten: string; priority: number };
+    dialplan: { context: string; exten: string; priority: number; app_name?: string; app_data?: string };
+    creationtime?: string;
     on(event: string, handler: (...args: any[]) => void): void;
     answer(): Promise<void>;
     hangup(params?: { reason?: string }): Promise<void>;
@@ -33,6 +34,8 @@ declare module "ari-client" {
 
   interface AriBridge {
     id: string;
+    name?: string;
+    channels?: string[];
     on(event: string, handler: (...args: any[]) => void): void;
     create(params: { type: string; name?: string }): Promise<AriBridge>;
     addChannel(params: { channel: string | string[] }): Promise<void>;
@@ -56,9 +59,18 @@ declare module "ari-client" {
     get(params: { channelId: string }): Promise<AriChannel>;
     hangup(params: { channelId: string; reason?: string }): Promise<void>;
     answer(params: { channelId: string }): Promise<void>;
+    continueInDialplan(params: {
+      channelId: string;
+      context?: string;
+      extension?: string;
+      priority?: number;
+      label?: string;
+    }): Promise<void>;
     play(params: { channelId: string; media: string }, playback?: AriPlayback): Promise<AriPlayback>;
     record(params: { channelId: string } & RecordParams): Promise<AriLiveRecording>;
     sendDTMF(params: { channelId: string; dtmf: string }): Promise<void>;
+    getChannelVar(params: { channelId: string; variable: string }): Promise<{ value: string }>;
+    setChannelVar(params: { channelId: string; variable: string; value?: string }): Promise<void>;
     originate(params: OriginateParams): Promise<AriChannel>;
     externalMedia(params: {
       channelId: string;
@@ -146,7 +146,7 @@ export function slinFormatName(sampleRate: number): string {
   }
 
   if (best === 8000) return "slin";
-  return `slin${best / 1000}`;
+  return `slin${Math.floor(best / 1000)}`;
 }
 
 /**
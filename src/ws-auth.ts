@@ -0,0 +1,64 @@
+/**
+ * WebSocket Authentication
+ * API key check for WebSocket upgrades (/events, /calls/:id/audio), matching
+ * the X-API-Key / ?api_key= check of the REST API.
+ */
+
+import type { IncomingMessage } from "node:http";
+import type { Duplex } from "node:stream";
+import { STATUS_CODES } from "node:http";
+
+/**
+ * API key offered in the upgrade request: X-API-Key header, ?api_key= query
+ * parameter, or one of the Sec-WebSocket-Protocol values (for browsers, which
+ * cannot set headers on a WebSocket).
+ */
+function offeredApiKeys(req: IncomingMessage): string[] {
+  const keys: string[] = [];
+  const header = req.headers["x-api-key"];
+  if (typeof header === "string") keys.push(header);
+
+  const query = new URL(req.url ?? "/", "http://localhost").searchParams.get("api_key");
+  if (query !== null) keys.push(query);
+
+  const protocols = req.headers["sec-websocket-protocol"];
+  if (protocols) keys.push(...protocols.split(",").map((p) => p.trim()));
+  return keys;
+}
+
+/**
+ * Whether the upgrade request carries the API key (always true without one).
+ * Rejected attempts are logged.
+ */
+export function isAuthorizedUpgrade(req: IncomingMessage, apiKey?: string): boolean {
+  if (!apiKey) return true;
+  const keys = offeredApiKeys(req);
+  if (keys.includes(apiKey)) return true;
+
+  console.warn(
+    `[WS] Rejected unauthenticated connection to ${req.url?.split("?")[0]} from ${req.socket.remoteAddress}: ` +
+    (keys.length > 0 ? "invalid API key" : "no API key")
+  );
+  return false;
+}
+
+/**
+ * handleProtocols for WebSocketServer: don't echo the API key back as the
+ * selected subprotocol when another one was offered.
+ */
+export function selectProtocol(apiKey?: string) {
+  return (protocols: Set<string>): string | false => {
+    const offered = Array.from(protocols);
+    return offered.find((p) => p !== apiKey) ?? offered[0] ?? false;
+  };
+}
+
+/** Answer an upgrade request with a plain HTTP error and close the socket. */
+export function rejectUpgrade(socket: Duplex, status: number): void {
+  const body = STATUS_CODES[status] ?? "";
+  socket.end(
+    `HTTP/1.1 ${status} ${body}\r\n` +
+    "Connection: close\r\nContent-Type: text/plain\r\n" +
+    `Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`
+  );
+}
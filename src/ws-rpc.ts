@@ -0,0 +1,154 @@
+/**
+ * WebSocket Call Control
+ *
+ * JSON-RPC style requests on the /events socket, so a client holding the
+ * event stream can control calls without separate HTTP requests:
+ *
+ *   → { "id": 7, "method": "speak", "params": { "callId": "...", "text": "Hello" } }
+ *   ← { "jsonrpc": "2.0", "id": 7, "result": { "status": "ok", ... } }
+ *   ← { "jsonrpc": "2.0", "id": 7, "error": { "code": 404, "message": "Call ... not found" } }
+ *
+ * Each method validates its params with the REST route's schema and calls the
+ * same AriConnection operation; results match the REST response bodies, and
+ * error codes are the HTTP status the route would have answered with.
+ */
+
+import { z } from "zod";
+import type { AriConnection } from "./ari-connection.js";
+import {
+  describeError,
+  DtmfRequestSchema,
+  HangupRequestSchema,
+  PlayRequestSchema,
+  RecordRequestSchema,
+  SpeakRequestSchema,
+  UpdateCallRequestSchema,
+} from "./api.js";
+
+export const RpcRequestSchema = z.object({
+  jsonrpc: z.literal("2.0").optional(),
+  id: z.union([z.string().min(1), z.number()]),
+  method: z.string().min(1),
+  params: z.record(z.unknown()).default({}),
+});
+
+export type RpcRequest = z.infer<typeof RpcRequestSchema>;
+
+export interface RpcResponse {
+  jsonrpc: "2.0";
+  id: RpcRequest["id"] | null;
+  result?: unknown;
+  error?: { code: number; message: string; data?: { details: string[] } };
+}
+
+const CallIdSchema = z.string({ required_error: "callId is required" }).min(1, "callId is required");
+
+/** Split params into the call ID and the REST request body, validated with `schema`. */
+function callParams<T extends z.ZodTypeAny>(
+  schema: T,
+  params: Record<string, unknown>
+): { callId: string; body: z.infer<T> } {
+  const { callId, ...rest } = params;
+  const id = z.object({ callId: CallIdSchema }).safeParse({ callId });
+  const body = schema.safeParse(rest);
+  if (!id.success || !body.success) {
+    // Report both, with the same paths as the REST body
+    throw new z.ZodError([...(id.error?.issues ?? []), ...(body.error?.issues ?? [])]);
+  }
+  return { callId: id.data.callId, body: body.data };
+}
+
+type RpcMethod = (params: Record<string, unknown>, ariConn: AriConnection) => Promise<unknown>;
+
+/** Method names and what they map to (REST route in comments) */
+const METHODS: Record<string, RpcMethod> = {
+  // POST /calls/:id/speak
+  async speak(params, ariConn) {
+    const { callId, body } = callParams(SpeakRequestSchema, params);
+    const result = await ariConn.speak(callId, body);
+    return {
+      status: "ok",
+      text: body.text,
+      voice: result.voice,
+      language: result.language,
+      durationSeconds: result.durationSeconds,
+    };
+  },
+
+  // POST /calls/:id/play
+  async play(params, ariConn) {
+    const { callId, body } = callParams(PlayRequestSchema, params);
+    if (Array.isArray(body.media)) {
+      await ariConn.playMediaSequence(callId, body.media);
+    } else {
+      await ariConn.playMedia(callId, body.media);
+    }
+    return { status: "ok" };
+  },
+
+  // POST /calls/:id/dtmf
+  async dtmf(params, ariConn) {
+    const { callId, body } = callParams(DtmfRequestSchema, params);
+    await ariConn.sendDtmf(callId, body.dtmf);
+    return { status: "ok" };
+  },
+
+  // POST /calls/:id/record
+  async record(params, ariConn) {
+    const { callId, body } = callParams(RecordRequestSchema, params);
+    return { recordingName: await ariConn.startRecording(callId, body) };
+  },
+
+  // PATCH /calls/:id
+  async update(params, ariConn) {
+    const { callId, body } = callParams(UpdateCallRequestSchema, params);
+    return { call: ariConn.updateCallMetadata(callId, body) };
+  },
+
+  // DELETE /calls/:id
+  async hangup(params, ariConn) {
+    const { callId, body } = callParams(HangupRequestSchema, params);
+    await ariConn.hangup(callId, body?.reason);
+    return { status: "hungup" };
+  },
+};
+
+export const RPC_METHODS = Object.keys(METHODS);
+
+/** Validation errors are reported under data.details with code 400. */
+function errorResponse(id: RpcResponse["id"], err: unknown): RpcResponse {
+  const { status, body } = describeError(err);
+  return {
+    jsonrpc: "2.0",
+    id,
+    error: { code: status, message: body.error, ...(body.details ? { data: { details: body.details } } : {}) },
+  };
+}
+
+/**
+ * Run one request from a client. Never rejects: failures become error responses.
+ */
+export async function handleRpcRequest(message: unknown, ariConn: AriConnection): Promise<RpcResponse> {
+  const parsed = RpcRequestSchema.safeParse(message);
+  if (!parsed.success) {
+    const id = (message as { id?: unknown }).id;
+    return errorResponse(typeof id === "string" || typeof id === "number" ? id : null, parsed.error);
+  }
+
+  const { id, method, params } = parsed.data;
+  const handler = Object.hasOwn(METHODS, method) ? METHODS[method] : undefined;
+  if (!handler) {
+    return {
+      jsonrpc: "2.0",
+      id,
+      error: { code: 404, message: `Unknown method ${method} (available: ${RPC_METHODS.join(", ")})` },
+    };
+  }
+
+  try {
+    return { jsonrpc: "2.0", id, result: await handler(params, ariConn) };
+  } catch (err: unknown) {
+    console.error(`[WS] RPC ${method} error:`, err);
+    return errorResponse(id, err);
+  }
+}
@@ -1,41 +1,221 @@
-import { WebSocketServer, WebSocket } from "ws";
-import type { Server } from "node:http";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import type { IncomingMessage, Server } from "node:http";
+import type { Duplex } from "node:stream";
 import type { CallManager } from "./call-manager.js";
+import type { AriConnection } from "./ari-connection.js";
 import type { CallEvent } from "./types.js";
+import { ClientSubscriptions, SubscribeMessageSchema, SubscriptionMessageSchema } from "./ws-subscriptions.js";
+import { isAuthorizedUpgrade, rejectUpgrade, selectProtocol } from "./ws-auth.js";
+import { handleRpcRequest } from "./ws-rpc.js";
+import { describeError } from "./api.js";
+import {
+  AUDIO_INJECT_PATH, AUDIO_STREAM_PATH, createAudioInjectServer, createAudioStreamServer,
+} from "./audio-ws.js";
+
+/**
+ * The ?since=<seq> resume position: undefined when absent, NaN when not a
+ * non-negative integer.
+ */
+function requestedSince(req: IncomingMessage): number | undefined {
+  const since = new URL(req.url ?? "/", "http://localhost").searchParams.get("since");
+  if (since === null) return undefined;
+  return /^\d+$/.test(since) ? Number(since) : NaN;
+}
+
+/** The ?epoch= of the stream `since` refers to (sent in snapshot and replay messages). */
+function requestedEpoch(req: IncomingMessage): string | undefined {
+  return new URL(req.url ?? "/", "http://localhost").searchParams.get("epoch") ?? undefined;
+}
+
+/**
+ * A subscription given on the URL (?events=, ?calls= as comma-separated
+ * lists, ?direction=), so it already filters the replay of a resuming client.
+ * Undefined when none of the parameters is present.
+ */
+function requestedSubscription(req: IncomingMessage) {
+  const params = new URL(req.url ?? "/", "http://localhost").searchParams;
+  if (!["events", "calls", "direction"].some((name) => params.has(name))) return undefined;
+  const list = (name: string) => params.get(name)?.split(",").filter(Boolean);
+  return SubscribeMessageSchema.safeParse({
+    type: "subscribe",
+    id: "initial",
+    events: list("events"),
+    calls: list("calls"),
+    direction: params.get("direction") ?? undefined,
+  });
+}
+
+function serializeEvent(event: CallEvent): string {
+  return JSON.stringify({
+    ...event,
+    timestamp: event.timestamp.toISOString(),
+  });
+}
+
+/**
+ * Apply a subscribe/unsubscribe message from a client and build the reply.
+ */
+function handleSubscriptionMessage(message: unknown, subscriptions: ClientSubscriptions): Record<string, unknown> {
+  const parsed = SubscriptionMessageSchema.safeParse(message);
+  if (!parsed.success) {
+    return { type: "error", ...describeError(parsed.error).body };
+  }
+
+  if (parsed.data.type === "subscribe") {
+    return { type: "subscribed", subscription: subscriptions.subscribe(parsed.data) };
+  }
+  return { type: "unsubscribed", ids: subscriptions.unsubscribe(parsed.data.id), subscriptions: subscriptions.list() };
+}
+
+/** Messages with a method are call control requests (ws-rpc.ts), the rest subscription changes. */
+function isRpcRequest(message: unknown): boolean {
+  return typeof message === "object" && message !== null && "method" in message;
+}
 
 /**
  * WebSocket server that streams call events to connected clients.
- * Clients connect to ws://host:port/events
+ * Clients connect to ws://host:port/events; with an API key configured the
+ * upgrade (here and for the audio sockets in audio-ws.ts) is rejected with 401
+ * unless the client presents it. Each client receives the events matching
+ * its subscriptions (see ws-subscriptions.ts), and can send call control
+ * requests on the same socket (see ws-rpc.ts).
+ *
+ * A client that reconnects with ?since=<seq>&epoch=<epoch> (the last seq it
+ * received and the epoch of that stream, which changes with every restart) is
+ * first sent the events it missed from the CallManager replay buffer, then a
+ * replay_complete message, before live events; if they are no longer
+ * buffered it gets replay_unavailable followed by a fresh snapshot. Replayed
+ * events go through the client's subscriptions like live ones, so a client
+ * that filters its stream passes its subscription on the URL.
  */
-export function attachWebSocketServer(server: Server, callManager: CallManager) {
-  const wss = new WebSocketServer({ server, path: "/events" });
+export function attachWebSocketServer(
+  server: Server,
+  callManager: CallManager,
+  ariConn: AriConnection,
+  apiKey?: string
+) {
+  const wss = new WebSocketServer({
+    noServer: true,
+    verifyClient: (info, done) => {
+      if (Number.isNaN(requestedSince(info.req))) {
+        return done(false, 400, "since must be a non-negative integer");
+      }
+      if (requestedSince(info.req) !== undefined && !requestedEpoch(info.req)) {
+        return done(false, 400, "epoch is required with since");
+      }
+      const subscription = requestedSubscription(info.req);
+      if (subscription && !subscription.success) {
+        return done(false, 400, `Invalid subscription: ${describeError(subscription.error).body.details!.join("; ")}`);
+      }
+      done(true);
+    },
+    handleProtocols: selectProtocol(apiKey),
+  });
+  const routes: [RegExp, WebSocketServer][] = [
+    [/^\/events$/, wss],
+    [AUDIO_STREAM_PATH, createAudioStreamServer(callManager, ariConn, apiKey)],
+    [AUDIO_INJECT_PATH, createAudioInjectServer(callManager, ariConn, apiKey)],
+  ];
+
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    const target = routes.find(([path]) => path.test(pathname))?.[1];
+    if (!target) return rejectUpgrade(socket, 404);
+    if (!isAuthorizedUpgrade(req, apiKey)) return rejectUpgrade(socket, 401);
+    target.handleUpgrade(req, socket, head, (ws) => target.emit("connection", ws, req));
+  });
 
-  wss.on("connection", (ws) => {
-    console.log("[WS] Client connected");
+  const clients = new Map<WebSocket, ClientSubscriptions>();
 
-    // Send current active calls on connect
-    ws.send(
-      JSON.stringify({
-        type: "snapshot",
-        calls: callManager.listActive(),
-        timestamp: new Date().toISOString(),
-      })
-    );
+  /** Direction of the call an event belongs to, for subscription matching (system events have none) */
+  const directionOf = (event: CallEvent) => (event.callId ? callManager.get(event.callId)?.direction : undefined);
+
+  wss.on("connection", (ws, req) => {
+    const since = requestedSince(req);
+    console.log(since === undefined ? "[WS] Client connected" : `[WS] Client connected, resuming after seq ${since}`);
+    const subscriptions = new ClientSubscriptions();
+    const initial = requestedSubscription(req);
+    if (initial?.success) subscriptions.subscribe(initial.data);
+    clients.set(ws, subscriptions);
+
+    ws.on("message", (data: RawData) => {
+      let message: unknown;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        ws.send(JSON.stringify({ type: "error", error: "Invalid JSON" }));
+        return;
+      }
+
+      if (!isRpcRequest(message)) {
+        ws.send(JSON.stringify(handleSubscriptionMessage(message, subscriptions)));
+        return;
+      }
+      // Responses are sent as each request completes, so they may arrive out of order
+      void handleRpcRequest(message, ariConn).then((response) => {
+        if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(response));
+      });
+    });
+
+    // Replay missed events; nothing can be emitted in between, so live events follow without gaps
+    const replay = since === undefined ? undefined : callManager.eventsSince(since, requestedEpoch(req)!);
+    if (replay?.available) {
+      // Filtered like live delivery, by the subscription given on the URL
+      const missed = replay.events.filter((event) => subscriptions.matches(event, directionOf(event)));
+      for (const event of missed) ws.send(serializeEvent(event));
+      ws.send(
+        JSON.stringify({
+          type: "replay_complete",
+          since,
+          replayed: missed.length,
+          epoch: callManager.epoch,
+          seq: callManager.currentSeq(),
+          timestamp: new Date().toISOString(),
+        })
+      );
+    } else {
+      if (replay) {
+        ws.send(
+          JSON.stringify({
+            type: "replay_unavailable",
+            since,
+            oldestSeq: replay.oldestSeq,
+            epoch: callManager.epoch,
+            seq: replay.lastSeq,
+            reason: replay.reason === "restarted"
+              ? "since is from an earlier event stream (the service restarted)"
+              : "Events after since are no longer buffered",
+            timestamp: new Date().toISOString(),
+          })
+        );
+      }
+
+      // Send current active calls on connect
+      ws.send(
+        JSON.stringify({
+          type: "snapshot",
+          calls: callManager.listActive(),
+          epoch: callManager.epoch,
+          seq: callManager.currentSeq(),
+          timestamp: new Date().toISOString(),
+        })
+      );
+    }
 
     ws.on("close", () => {
+      clients.delete(ws);
       console.log("[WS] Client disconnected");
     });
   });
 
-  // Broadcast call events to all connected clients
+  // Send call events to the clients subscribed to them
   callManager.on("event", (event: CallEvent) => {
-    const message = JSON.stringify({
-      ...event,
-      timestamp: event.timestamp.toISOString(),
-    });
+    const direction = directionOf(event);
+    let message: string | undefined;
 
-    for (const client of wss.clients) {
-      if (client.readyState === WebSocket.OPEN) {
+    for (const [client, subscriptions] of clients) {
+      if (client.readyState === WebSocket.OPEN && subscriptions.matches(event, direction)) {
+        message ??= serializeEvent(event);
         client.send(message);
       }
     }
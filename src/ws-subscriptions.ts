@@ -0,0 +1,119 @@
+/**
+ * WebSocket Subscriptions
+ *
+ * Per-client filters for the /events stream. A client sends
+ *
+ *   { "type": "subscribe", "calls": [...], "events": ["call.*"], "direction": "inbound" }
+ *   { "type": "unsubscribe", "id": "..." }
+ *
+ * and receives only events matching at least one of its subscriptions. Within
+ * a subscription every given field must match; omitted fields match anything.
+ * Clients that never subscribed get every event except audio frames, which are
+ * only sent to subscriptions naming `call.audio_frame` exactly (globs never
+ * match it). A client that removed all its subscriptions gets nothing.
+ */
+
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+import type { CallEvent, CallRecord } from "./types.js";
+
+/** Event types only delivered when subscribed to by name */
+const OPT_IN_EVENTS = new Set(["call.audio_frame"]);
+
+export const SubscribeMessageSchema = z.object({
+  type: z.literal("subscribe"),
+  /** Client-chosen subscription ID; generated when omitted */
+  id: z.string().min(1).max(100).optional(),
+  calls: z.array(z.string().min(1)).min(1).optional(),
+  /** Event types, with `*` matching any run of characters (e.g. "call.*") */
+  events: z.array(z.string().min(1)).min(1).optional(),
+  direction: z.enum(["inbound", "outbound"]).optional(),
+});
+
+export const UnsubscribeMessageSchema = z.object({
+  type: z.literal("unsubscribe"),
+  /** Subscription to remove; all subscriptions when omitted */
+  id: z.string().min(1).optional(),
+});
+
+export const SubscriptionMessageSchema = z.discriminatedUnion("type", [
+  SubscribeMessageSchema,
+  UnsubscribeMessageSchema,
+]);
+
+export type SubscribeMessage = z.infer<typeof SubscribeMessageSchema>;
+
+export interface Subscription {
+  id: string;
+  calls?: string[];
+  events?: string[];
+  direction?: CallRecord["direction"];
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`^${escaped.join(".*")}$`);
+}
+
+interface CompiledSubscription {
+  subscription: Subscription;
+  calls?: Set<string>;
+  events?: RegExp[];
+  /** Opt-in event types named exactly in `events` */
+  optIn: Set<string>;
+}
+
+export class ClientSubscriptions {
+  private subscriptions = new Map<string, CompiledSubscription>();
+  /** Set by the first subscribe(); from then on no subscriptions means no events */
+  private subscribed = false;
+
+  /** Add (or replace, for a reused ID) a subscription. */
+  subscribe(message: SubscribeMessage): Subscription {
+    const subscription: Subscription = {
+      id: message.id ?? randomUUID(),
+      calls: message.calls,
+      events: message.events,
+      direction: message.direction,
+    };
+    this.subscribed = true;
+    this.subscriptions.set(subscription.id, {
+      subscription,
+      calls: message.calls ? new Set(message.calls) : undefined,
+      events: message.events?.map(globToRegExp),
+      optIn: new Set(message.events?.filter((type) => OPT_IN_EVENTS.has(type))),
+    });
+    return subscription;
+  }
+
+  /** Remove one subscription, or all without an ID. Returns the removed IDs. */
+  unsubscribe(id?: string): string[] {
+    if (id === undefined) {
+      const ids = Array.from(this.subscriptions.keys());
+      this.subscriptions.clear();
+      return ids;
+    }
+    return this.subscriptions.delete(id) ? [id] : [];
+  }
+
+  list(): Subscription[] {
+    return Array.from(this.subscriptions.values(), (compiled) => compiled.subscription);
+  }
+
+  /**
+   * Whether `event` should be sent to this client. `direction` is the
+   * direction of the event's call (undefined for system events).
+   */
+  matches(event: CallEvent, direction?: CallRecord["direction"]): boolean {
+    const optIn = OPT_IN_EVENTS.has(event.type);
+    if (this.subscriptions.size === 0) return !this.subscribed && !optIn;
+
+    for (const { subscription, calls, events, optIn: named } of this.subscriptions.values()) {
+      if (calls && !calls.has(event.callId)) continue;
+      if (subscription.direction && subscription.direction !== direction) continue;
+      if (optIn ? !named.has(event.type) : events && !events.some((re) => re.test(event.type))) continue;
+      return true;
+    }
+    return false;
+  }
+}